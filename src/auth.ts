@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { DEFAULT_DATASET } from './datasets';
+import { findUnknownColumns, getReferencedFields } from './query';
+import { ApiKey, ApiKeyScope, ExportJob, ExportJobRequest } from './types';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['exports:create', 'exports:download', 'benchmark', 'admin'];
+
+const KEY_ID = /^[A-Za-z0-9_.-]{1,100}$/;
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+// Keys from API_KEYS_FILE; null while authentication is disabled
+let apiKeys: ApiKey[] | null = null;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// Returns an error message for an invalid API key file, or null if it is valid
+export function validateApiKeys(config: any): string | null {
+  if (!config || typeof config !== 'object' || !Array.isArray(config.keys)) {
+    return 'API key file must contain a "keys" array';
+  }
+  const ids = new Set<string>();
+  for (const key of config.keys) {
+    if (!key || typeof key.id !== 'string' || !KEY_ID.test(key.id)) {
+      return 'Each API key needs an id of 1-100 letters, digits, "_", "-" or "."';
+    }
+    if (ids.has(key.id)) {
+      return `Duplicate API key id "${key.id}"`;
+    }
+    ids.add(key.id);
+    if (typeof key.keyHash !== 'string' || !SHA256_HEX.test(key.keyHash)) {
+      return `API key "${key.id}" needs a keyHash of 64 lowercase hex digits (SHA-256 of the key)`;
+    }
+    if (!Array.isArray(key.scopes) || !key.scopes.every((scope: any) => API_KEY_SCOPES.includes(scope))) {
+      return `Invalid scopes for API key "${key.id}". Must be any of: ${API_KEY_SCOPES.join(', ')}`;
+    }
+    const datasets = key.datasets ?? {};
+    if (!datasets || typeof datasets !== 'object' || Array.isArray(datasets)) {
+      return `datasets of API key "${key.id}" must be an object`;
+    }
+    for (const [name, columns] of Object.entries(datasets)) {
+      if (columns !== '*' && !(Array.isArray(columns) && columns.every(col => typeof col === 'string'))) {
+        return `Columns of dataset ${name} for API key "${key.id}" must be "*" or an array of column names`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Load API keys from API_KEYS_FILE. Without the setting authentication is disabled
+ * and every request is allowed. Returns the number of keys, or null if disabled.
+ */
+export function loadApiKeys(): number | null {
+  const file = process.env.API_KEYS_FILE;
+  if (!file) {
+    apiKeys = null;
+    return null;
+  }
+  const config = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const error = validateApiKeys(config);
+  if (error) {
+    throw new Error(`${file}: ${error}`);
+  }
+  apiKeys = config.keys.map((key: any) => ({
+    id: key.id,
+    keyHash: key.keyHash,
+    scopes: key.scopes,
+    datasets: key.datasets ?? {},
+  }));
+  return config.keys.length;
+}
+
+export function isAuthEnabled(): boolean {
+  return apiKeys !== null;
+}
+
+// Identify the caller by the API key in "Authorization: Bearer <key>"
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  if (!apiKeys) {
+    return next();
+  }
+  const match = /^Bearer (.+)$/.exec(req.get('Authorization') ?? '');
+  const key = match ? findApiKey(apiKeys, match[1]) : undefined;
+  if (!key) {
+    return res.status(401).json({ error: 'Missing or invalid API key' });
+  }
+  res.locals.apiKey = key;
+  next();
+}
+
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = getApiKey(res);
+    if (apiKeys && !(key && hasScope(key, scope))) {
+      return res.status(403).json({ error: `API key lacks the ${scope} scope` });
+    }
+    next();
+  };
+}
+
+export function getApiKey(res: Response): ApiKey | undefined {
+  return res.locals.apiKey;
+}
+
+// Jobs are owned by the key that created them; admin keys see every job
+export function canAccessJob(res: Response, job: ExportJob): boolean {
+  const key = getApiKey(res);
+  return !apiKeys || (key !== undefined && (hasScope(key, 'admin') || job.owner === key.id));
+}
+
+// Owner to restrict job listings to, or undefined to list every job
+export function getListOwner(res: Response): string | undefined {
+  const key = getApiKey(res);
+  return key && !hasScope(key, 'admin') ? key.id : undefined;
+}
+
+export function canAccessDataset(res: Response, dataset: string): boolean {
+  const key = getApiKey(res);
+  return !apiKeys || (key !== undefined && getAllowedColumns(key, dataset) !== undefined);
+}
+
+// The columns of a dataset the caller may export
+export function filterAllowedColumns(res: Response, dataset: string, columns: string[]): string[] {
+  const key = getApiKey(res);
+  if (!apiKeys) {
+    return columns;
+  }
+  const allowed = key ? getAllowedColumns(key, dataset) : undefined;
+  return allowed === '*' ? columns : columns.filter(col => allowed?.includes(col));
+}
+
+/**
+ * Returns an error message if the caller may not run an export, or null if it may.
+ * Columns used in filters and ordering count as exported, since they reveal values
+ * too; extraFields adds others the export reads (e.g. a watermark column).
+ */
+export function checkExportPermission(
+  res: Response,
+  request: ExportJobRequest,
+  extraFields: string[] = []
+): string | null {
+  const key = getApiKey(res);
+  if (!apiKeys) {
+    return null;
+  }
+  if (!key) {
+    return 'An API key is required';
+  }
+  const dataset = request.dataset ?? DEFAULT_DATASET;
+  const allowed = getAllowedColumns(key, dataset);
+  if (allowed === undefined) {
+    return `API key ${key.id} may not export dataset ${dataset}`;
+  }
+  if (allowed === '*') {
+    return null;
+  }
+  const fields = [
+    ...request.columns.map(col => col.source),
+    ...getReferencedFields(request.filter, request.orderBy),
+    ...extraFields,
+  ];
+  // Parallel exports split by id, which reveals its range
+  if (request.parallel) {
+    fields.push('id');
+  }
+  const denied = findUnknownColumns(fields, allowed);
+  if (denied.length > 0) {
+    return `API key ${key.id} may not export column(s) of ${dataset}: ${denied.join(', ')}`;
+  }
+  return null;
+}
+
+function hasScope(key: ApiKey, scope: ApiKeyScope): boolean {
+  return key.scopes.includes('admin') || key.scopes.includes(scope);
+}
+
+function getAllowedColumns(key: ApiKey, dataset: string): string[] | '*' | undefined {
+  if (hasScope(key, 'admin')) {
+    return '*';
+  }
+  // Own properties only, so dataset names such as "constructor" match nothing inherited
+  const name = [dataset, '*'].find(candidate => Object.prototype.hasOwnProperty.call(key.datasets, candidate));
+  return name === undefined ? undefined : key.datasets[name];
+}
+
+// Compares hashes rather than keys, so the time taken reveals nothing about valid keys
+function findApiKey(keys: ApiKey[], secret: string): ApiKey | undefined {
+  const hash = Buffer.from(hashApiKey(secret), 'hex');
+  return keys.find(key => crypto.timingSafeEqual(hash, Buffer.from(key.keyHash, 'hex')));
+}
@@ -0,0 +1,56 @@
+import { jobStore } from './store';
+
+// Exports currently running in this process, keyed by job id
+const activeExports: Map<string, AbortController> = new Map();
+
+const WATCH_INTERVAL_MS = 5000;
+let watchTimer: NodeJS.Timeout | null = null;
+
+export function registerActiveExport(jobId: string): AbortController {
+  const controller = new AbortController();
+  activeExports.set(jobId, controller);
+  return controller;
+}
+
+export function unregisterActiveExport(jobId: string, controller: AbortController): void {
+  // A newer run of the same job may have replaced this controller
+  if (activeExports.get(jobId) === controller) {
+    activeExports.delete(jobId);
+  }
+}
+
+// Abort a running export in this process; returns false if it is not running here
+export function abortActiveExport(jobId: string): boolean {
+  const controller = activeExports.get(jobId);
+  if (!controller) {
+    return false;
+  }
+  controller.abort();
+  activeExports.delete(jobId);
+  return true;
+}
+
+/**
+ * Periodically checks the store for jobs cancelled through another replica and aborts
+ * them here. With the in-memory store this never finds anything DELETE has not
+ * already aborted directly.
+ */
+export function startCancellationWatcher(): void {
+  if (watchTimer) {
+    return;
+  }
+  watchTimer = setInterval(async () => {
+    for (const jobId of Array.from(activeExports.keys())) {
+      try {
+        const job = await jobStore.getJob(jobId);
+        if (job?.status === 'cancelled') {
+          console.log(`Export ${jobId} was cancelled elsewhere; aborting`);
+          abortActiveExport(jobId);
+        }
+      } catch (error) {
+        console.error(`Error checking cancellation of export ${jobId}:`, error);
+      }
+    }
+  }, WATCH_INTERVAL_MS);
+  watchTimer.unref();
+}
@@ -0,0 +1,175 @@
+import { Transform, TransformCallback } from 'stream';
+import * as zlib from 'zlib';
+import { CompressionType } from './types';
+import { ZipWriter } from './zip';
+
+type Codec = Exclude<CompressionType, undefined>;
+
+export const COMPRESSION_TYPES: Codec[] = ['gzip', 'deflate', 'brotli', 'zstd', 'zip'];
+
+// Lowest and highest compression level accepted by each codec
+const LEVEL_RANGES: Record<Codec, [number, number]> = {
+  gzip: [0, 9],
+  deflate: [0, 9],
+  zip: [0, 9],
+  brotli: [0, 11],
+  zstd: [1, 22],
+};
+
+// zstd is only in zlib from Node 22.15, and not yet in @types/node 20
+const createZstdCompress: ((options?: { params?: Record<number, number> }) => Transform) | undefined =
+  (zlib as any).createZstdCompress;
+const ZSTD_C_COMPRESSION_LEVEL: number = (zlib.constants as any).ZSTD_c_compressionLevel;
+
+export function isCompressionSupported(compression: Codec): boolean {
+  return compression !== 'zstd' || createZstdCompress !== undefined;
+}
+
+// Returns an error message for an invalid compression and level, or null if they are valid
+export function validateCompression(compression: any, level: any): string | null {
+  if (compression !== undefined && !COMPRESSION_TYPES.includes(compression)) {
+    return `Invalid compression. Must be one of: ${COMPRESSION_TYPES.join(', ')}, or omitted`;
+  }
+  if (compression !== undefined && !isCompressionSupported(compression)) {
+    return `${compression} compression is not supported by this server's Node.js runtime`;
+  }
+  if (level !== undefined) {
+    if (compression === undefined) {
+      return 'compressionLevel requires a compression';
+    }
+    const [min, max] = LEVEL_RANGES[compression as Codec];
+    if (!Number.isInteger(level) || level < min || level > max) {
+      return `Invalid compressionLevel for ${compression}. Must be an integer from ${min} to ${max}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Create the transform that compresses an export. zip wraps the output in a
+ * single-entry archive named entryName.
+ */
+export function createCompressionTransform(
+  compression: CompressionType,
+  level?: number,
+  entryName = 'export'
+): Transform | null {
+  switch (compression) {
+    case 'gzip':
+      return zlib.createGzip({ level: level ?? zlib.constants.Z_DEFAULT_COMPRESSION });
+    case 'deflate':
+      // HTTP deflate is the zlib format, not a raw deflate stream
+      return zlib.createDeflate({ level: level ?? zlib.constants.Z_DEFAULT_COMPRESSION });
+    case 'brotli':
+      return zlib.createBrotliCompress({
+        params: level === undefined ? {} : { [zlib.constants.BROTLI_PARAM_QUALITY]: level },
+      });
+    case 'zstd':
+      if (!createZstdCompress) {
+        throw new Error("zstd compression is not supported by this server's Node.js runtime");
+      }
+      return createZstdCompress({
+        params: level === undefined ? {} : { [ZSTD_C_COMPRESSION_LEVEL]: level },
+      });
+    case 'zip':
+      return new ZipTransform(entryName, level ?? zlib.constants.Z_DEFAULT_COMPRESSION);
+    default:
+      return null;
+  }
+}
+
+export interface NegotiatedCompression {
+  compression: Codec;
+  level?: number;
+}
+
+// Accept-Encoding tokens in server preference order, for ties in the client's q-values
+const CONTENT_CODINGS: Record<string, Codec> = {
+  zstd: 'zstd',
+  br: 'brotli',
+  gzip: 'gzip',
+  deflate: 'deflate',
+};
+
+// Brotli's default quality of 11 is far too slow for compressing on the fly
+const NEGOTIATED_BROTLI_QUALITY = 5;
+
+/**
+ * Choose a content coding for a download from the client's Accept-Encoding.
+ * acceptsEncodings is Express's req.acceptsEncodings; identity yields undefined.
+ */
+export function negotiateCompression(
+  acceptsEncodings: (encodings: string[]) => string | false
+): NegotiatedCompression | undefined {
+  const offered = Object.keys(CONTENT_CODINGS).filter(token => isCompressionSupported(CONTENT_CODINGS[token]));
+  const encoding = acceptsEncodings([...offered, 'identity']);
+  if (!encoding || encoding === 'identity') {
+    return undefined;
+  }
+  const compression = CONTENT_CODINGS[encoding];
+  return { compression, level: compression === 'brotli' ? NEGOTIATED_BROTLI_QUALITY : undefined };
+}
+
+// Content-Encoding token for a negotiated codec
+export function getContentEncoding(compression: CompressionType): string | undefined {
+  return Object.keys(CONTENT_CODINGS).find(token => CONTENT_CODINGS[token] === compression);
+}
+
+// Media type of a file stored with this compression
+export function getCompressionContentType(compression: Codec): string {
+  switch (compression) {
+    case 'gzip':
+      return 'application/gzip';
+    case 'deflate':
+      return 'application/zlib';
+    case 'zstd':
+      return 'application/zstd';
+    case 'zip':
+      return 'application/zip';
+    default:
+      return 'application/octet-stream';
+  }
+}
+
+// Suffix for files stored with this compression, e.g. export_1.csv.gz
+export function getCompressionSuffix(compression: CompressionType): string {
+  switch (compression) {
+    case 'gzip':
+      return '.gz';
+    case 'deflate':
+      return '.zz';
+    case 'brotli':
+      return '.br';
+    case 'zstd':
+      return '.zst';
+    case 'zip':
+      return '.zip';
+    default:
+      return '';
+  }
+}
+
+// Streams its input into a single zip entry
+class ZipTransform extends Transform {
+  private readonly zip: ZipWriter;
+
+  constructor(entryName: string, level: number) {
+    super();
+    this.zip = new ZipWriter(chunk => this.push(chunk), level);
+    this.zip.startEntry(entryName);
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    this.zip.write(chunk).then(() => callback(), callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.zip
+      .endEntry()
+      .then(() => {
+        this.zip.finish();
+        callback();
+      })
+      .catch(callback);
+  }
+}
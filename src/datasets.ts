@@ -0,0 +1,247 @@
+import { ColumnTypeInfo, getQueryColumnTypes, loadTableSchema, pool, queryCount } from './database';
+import { jobStore } from './store';
+import {
+  Dataset,
+  DatasetKind,
+  DatasetParameter,
+  DatasetParameterType,
+  DatasetParameterValue,
+  DatasetSource,
+} from './types';
+import { quoteIdentifier } from './utils';
+
+// Exports that name no dataset read the records table
+export const DEFAULT_DATASET = 'records';
+
+export const DATASET_KINDS: DatasetKind[] = ['table', 'view', 'query'];
+export const PARAMETER_TYPES: DatasetParameterType[] = ['string', 'integer', 'number', 'boolean', 'timestamp', 'date'];
+
+const DATASET_NAME = /^[A-Za-z0-9_.-]{1,100}$/;
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+// Statement separators and comments could end the subquery a dataset query is wrapped in
+const UNSAFE_SQL = /;|--|\/\*/;
+
+const RECORDS_DATASET: Dataset = {
+  name: DEFAULT_DATASET,
+  kind: 'table',
+  relation: 'records',
+  createdAt: new Date(0),
+};
+
+// information_schema.tables table_type of each relation kind
+const TABLE_TYPES: Record<string, string> = {
+  table: 'BASE TABLE',
+  view: 'VIEW',
+};
+
+// Result columns of query datasets, keyed by name and creation time so re-registering invalidates them
+const querySchemaCache: Map<string, Record<string, ColumnTypeInfo>> = new Map();
+
+export function isBuiltinDataset(name: string): boolean {
+  return name === DEFAULT_DATASET;
+}
+
+export async function getDataset(name: string): Promise<Dataset | undefined> {
+  return isBuiltinDataset(name) ? RECORDS_DATASET : jobStore.getDataset(name);
+}
+
+export async function listDatasets(): Promise<Dataset[]> {
+  return [RECORDS_DATASET, ...(await jobStore.listDatasets())];
+}
+
+/**
+ * Check a dataset definition before it is registered. Query datasets are described
+ * against the database, so a query that does not parse, or whose parameter types
+ * PostgreSQL cannot infer, is rejected here rather than when an export runs.
+ */
+export async function validateDataset(input: any): Promise<string | null> {
+  if (!input || typeof input !== 'object') {
+    return 'Dataset must be an object';
+  }
+  const { name, kind, relation, sql, parameters } = input;
+
+  if (typeof name !== 'string' || !DATASET_NAME.test(name)) {
+    return 'Dataset name must be 1-100 letters, digits, "_", "-" or "."';
+  }
+  if (isBuiltinDataset(name)) {
+    return `Dataset name ${name} is reserved`;
+  }
+  if (!DATASET_KINDS.includes(kind)) {
+    return `Invalid dataset kind. Must be one of: ${DATASET_KINDS.join(', ')}`;
+  }
+
+  if (kind !== 'query') {
+    if (sql !== undefined || parameters !== undefined) {
+      return 'sql and parameters are only valid for query datasets';
+    }
+    if (typeof relation !== 'string' || relation.length === 0) {
+      return `relation is required for ${kind} datasets`;
+    }
+    const result = await pool.query(
+      `SELECT 1 FROM information_schema.tables
+        WHERE table_schema = current_schema() AND table_name = $1 AND table_type = $2`,
+      [relation, TABLE_TYPES[kind]]
+    );
+    return result.rows.length > 0 ? null : `No ${kind} named ${relation} in the current schema`;
+  }
+
+  if (relation !== undefined) {
+    return 'relation is only valid for table and view datasets';
+  }
+  if (typeof sql !== 'string' || !/^\s*(select|with)\b/i.test(sql)) {
+    return 'sql is required for query datasets and must be a single SELECT';
+  }
+  if (UNSAFE_SQL.test(sql)) {
+    return 'sql must be a single SELECT without ";" or comments';
+  }
+  const parametersError = validateParameterDeclarations(parameters);
+  if (parametersError) {
+    return parametersError;
+  }
+
+  try {
+    const columns = await getQueryColumnTypes(sql, getDefaultValues(parameters));
+    const names = columns.map(col => col.name);
+    const duplicate = names.find((column, i) => names.indexOf(column) !== i);
+    if (duplicate) {
+      return `Dataset query returns more than one column named "${duplicate}"`;
+    }
+  } catch (error) {
+    return `Invalid dataset query: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return null;
+}
+
+// Returns an error message for parameter values an export cannot use, or null if they are valid
+export function validateDatasetParameters(dataset: Dataset, values: any): string | null {
+  if (values !== undefined && (!values || typeof values !== 'object' || Array.isArray(values))) {
+    return 'parameters must be an object';
+  }
+  const declared = dataset.parameters ?? [];
+  const unknown = Object.keys(values ?? {}).filter(key => !declared.some(param => param.name === key));
+  if (unknown.length > 0) {
+    return `Unknown parameter(s) for dataset ${dataset.name}: ${unknown.join(', ')}`;
+  }
+  for (const param of declared) {
+    const value = values?.[param.name];
+    if (value === undefined) {
+      if (param.default === undefined) {
+        return `Missing required parameter "${param.name}" for dataset ${dataset.name}`;
+      }
+      continue;
+    }
+    if (!isValidParameterValue(param.type, value)) {
+      return `Parameter "${param.name}" must be a ${param.type}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve the dataset an export reads from. Parameter values are bound in
+ * declaration order, with defaults filled in for omitted ones.
+ */
+export async function resolveDataset(
+  name: string = DEFAULT_DATASET,
+  values?: Record<string, DatasetParameterValue>
+): Promise<DatasetSource> {
+  const dataset = await getDataset(name);
+  if (!dataset) {
+    throw new Error(`Dataset ${name} does not exist`);
+  }
+  const error = validateDatasetParameters(dataset, values);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (dataset.kind !== 'query') {
+    const relation = dataset.relation as string;
+    return {
+      name,
+      from: quoteIdentifier(relation),
+      params: [],
+      columnTypes: await loadTableSchema(relation),
+    };
+  }
+  // Also checked here for datasets registered before separators were rejected
+  if (UNSAFE_SQL.test(dataset.sql as string)) {
+    throw new Error(`Dataset ${name} has a query with ";" or comments; register it again without them`);
+  }
+  const params = (dataset.parameters ?? []).map(param => values?.[param.name] ?? param.default);
+  return {
+    name,
+    from: `(${dataset.sql}) AS dataset`,
+    params,
+    columnTypes: await loadQuerySchema(dataset),
+  };
+}
+
+// Column metadata of a dataset, for listing and startup checks
+export async function loadDatasetSchema(dataset: Dataset): Promise<Record<string, ColumnTypeInfo>> {
+  return dataset.kind === 'query' ? loadQuerySchema(dataset) : loadTableSchema(dataset.relation as string);
+}
+
+export async function getDatasetRowCount(source: DatasetSource): Promise<number> {
+  return queryCount(`SELECT COUNT(*) AS count FROM ${source.from}`, source.params);
+}
+
+async function loadQuerySchema(dataset: Dataset): Promise<Record<string, ColumnTypeInfo>> {
+  const key = `${dataset.name}@${new Date(dataset.createdAt).getTime()}`;
+  const cached = querySchemaCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const columns = await getQueryColumnTypes(dataset.sql as string, getDefaultValues(dataset.parameters));
+  const columnTypes = Object.fromEntries(columns.map(col => [col.name, col]));
+  querySchemaCache.set(key, columnTypes);
+  return columnTypes;
+}
+
+// Parameter values used to describe a query; types come from the query itself, not the values
+function getDefaultValues(parameters?: DatasetParameter[]): any[] {
+  return (parameters ?? []).map(param => param.default ?? null);
+}
+
+function validateParameterDeclarations(parameters: any): string | null {
+  if (parameters === undefined) {
+    return null;
+  }
+  if (!Array.isArray(parameters)) {
+    return 'parameters must be an array';
+  }
+  const names = new Set<string>();
+  for (const param of parameters) {
+    if (!param || typeof param.name !== 'string' || !PARAMETER_NAME.test(param.name)) {
+      return 'Each parameter needs a name of letters, digits and "_" that does not start with a digit';
+    }
+    if (names.has(param.name)) {
+      return `Duplicate parameter "${param.name}"`;
+    }
+    names.add(param.name);
+    if (!PARAMETER_TYPES.includes(param.type)) {
+      return `Invalid type for parameter "${param.name}". Must be one of: ${PARAMETER_TYPES.join(', ')}`;
+    }
+    if (param.default !== undefined && !isValidParameterValue(param.type, param.default)) {
+      return `Default for parameter "${param.name}" must be a ${param.type}`;
+    }
+  }
+  return null;
+}
+
+function isValidParameterValue(type: DatasetParameterType, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isSafeInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'timestamp':
+      return typeof value === 'string' && !isNaN(Date.parse(value));
+    case 'date':
+      return typeof value === 'string' && DATE.test(value) && !isNaN(Date.parse(value));
+  }
+}
@@ -0,0 +1,118 @@
+import { pool, queryReadOnly } from './database';
+import { jobStore } from './store';
+import { buildWatermarkQuery } from './query';
+import { resolveDataset } from './datasets';
+import { ExportDefinition, ExportJob, ExportWatermarkRange, FilterNode, WatermarkColumn } from './types';
+
+export const WATERMARK_COLUMNS: WatermarkColumn[] = ['id', 'created_at'];
+
+const DEFINITION_NAME = /^[A-Za-z0-9_.-]{1,100}$/;
+
+// PostgreSQL type of each watermark column, for parsing watermark values
+const WATERMARK_TYPES: Record<WatermarkColumn, string> = {
+  id: 'bigint',
+  created_at: 'timestamptz',
+};
+
+export function isValidWatermarkColumn(column: any): column is WatermarkColumn {
+  return WATERMARK_COLUMNS.includes(column);
+}
+
+// Returns an error message for an invalid definition name, or null if it is valid
+export function validateDefinitionName(name: any): string | null {
+  if (typeof name !== 'string' || !DEFINITION_NAME.test(name)) {
+    return 'Definition name must be 1-100 letters, digits, "_", "-" or "."';
+  }
+  return null;
+}
+
+/**
+ * Parse a watermark value with PostgreSQL and return its canonical text, so it
+ * compares equal to values read back from the column. Resolves undefined if the
+ * value is not valid for the column.
+ */
+export async function normalizeWatermark(
+  column: WatermarkColumn,
+  value: string | null
+): Promise<string | null | undefined> {
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  try {
+    const result = await pool.query(`SELECT $1::${WATERMARK_TYPES[column]}::text AS watermark`, [value]);
+    return result.rows[0].watermark;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create the export job for one run of a definition. The run covers rows past the
+ * watermark (or past since, to replay) up to the highest value present now; rows
+ * added while it runs are left for the next run.
+ */
+export async function createDefinitionRun(
+  definition: ExportDefinition,
+  since?: string | null,
+  owner?: string
+): Promise<ExportJob> {
+  const column = definition.watermarkColumn;
+  const from = since !== undefined ? since : definition.watermark;
+
+  const dataset = await resolveDataset(definition.request.dataset, definition.request.parameters);
+  const query = buildWatermarkQuery(
+    dataset,
+    column,
+    addRangeFilter(definition.request.filter, column, from, undefined)
+  );
+  const result = await queryReadOnly(query.text, query.params);
+
+  const range: ExportWatermarkRange = {
+    definition: definition.name,
+    column,
+    from,
+    to: result.rows[0].watermark ?? null,
+    previous: definition.watermark,
+  };
+  const filter = addRangeFilter(definition.request.filter, column, range.from, range.to);
+  return jobStore.createJob({ ...definition.request, filter }, range, owner);
+}
+
+// Advance the definition's watermark once a run has completed
+export async function completeDefinitionRun(job: ExportJob): Promise<void> {
+  const range = job.watermark;
+  if (!range || range.to === null || range.to === range.previous) {
+    return;
+  }
+  // Fails if another run or a reset moved the watermark in the meantime
+  const advanced = await jobStore.advanceDefinitionWatermark(range.definition, range.previous, range.to);
+  if (advanced) {
+    console.log(`Export definition ${range.definition} watermark advanced to ${range.to}`);
+  }
+}
+
+// Restrict a filter to column > from and column <= to; to = null matches no rows
+function addRangeFilter(
+  filter: FilterNode | undefined,
+  column: WatermarkColumn,
+  from: string | null,
+  to: string | null | undefined
+): FilterNode | undefined {
+  const predicates: FilterNode[] = filter ? [filter] : [];
+  if (from !== null) {
+    predicates.push({ field: column, operator: 'gt', value: from });
+  }
+  if (to === null) {
+    // Watermark columns are NOT NULL
+    predicates.push({ field: column, operator: 'is_null' });
+  } else if (to !== undefined) {
+    predicates.push({ field: column, operator: 'lte', value: to });
+  }
+  if (predicates.length === 0) {
+    return undefined;
+  }
+  return predicates.length === 1 ? predicates[0] : { and: predicates };
+}
@@ -0,0 +1,441 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { ColumnTypeInfo } from '../database';
+import { AvroOptions, ColumnMapping, StreamExporterOptions } from '../types';
+import { getComputedDataType, isComputedColumn } from '../transforms';
+import { encodeDecimal, flattenJsonValue, getDecimalByteLength, getLocalEpochDay } from '../utils';
+import { RowSerializer } from './pipeline';
+
+const deflateRaw = promisify(zlib.deflateRaw);
+
+const AVRO_MAGIC = Buffer.from([0x4f, 0x62, 0x6a, 0x01]); // "Obj" + version 1
+const SYNC_MARKER_SIZE = 16;
+// Rows sampled to infer record schemas for JSON columns
+const JSON_SAMPLE_ROWS = 1000;
+
+type AvroSchema = string | AvroSchema[] | { [key: string]: any };
+
+// Schema of one value together with its binary encoder
+interface AvroCodec {
+  schema: AvroSchema;
+  // Whether the value can be written as this type; other values become null in nullable fields
+  accepts: (value: any) => boolean;
+  write: (value: any, out: AvroBuffer) => void;
+}
+
+/**
+ * Rows that JSON record schemas are inferred from. An export takes one sample, from the
+ * first rows of its first part, and shares it so that every part has the same schema.
+ */
+export class AvroJsonSample {
+  readonly rows: Promise<Array<Record<string, any>>>;
+  private resolve: (rows: Array<Record<string, any>>) => void = () => {};
+
+  constructor() {
+    this.rows = new Promise(resolve => {
+      this.resolve = resolve;
+    });
+  }
+
+  // Only the first call counts
+  take(rows: Array<Record<string, any>>): void {
+    this.resolve(rows.slice(0, JSON_SAMPLE_ROWS));
+  }
+}
+
+// Returns an error message for invalid avro options, or null if they are valid
+export function validateAvroOptions(options: any): string | null {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return 'avroOptions must be an object';
+  }
+  if (options.codec !== undefined && !['null', 'deflate'].includes(options.codec)) {
+    return 'Invalid avro codec. Must be null or deflate';
+  }
+  if (options.jsonAs !== undefined && !['string', 'record'].includes(options.jsonAs)) {
+    return 'Invalid avro jsonAs. Must be string or record';
+  }
+  return null;
+}
+
+/**
+ * Writes an Avro Object Container File. The writer schema is derived from the
+ * column mappings and PostgreSQL column types; each database batch becomes one
+ * block followed by the file's sync marker. With jsonAs record, JSON columns get
+ * record schemas inferred from jsonSample, which the serializer takes from its
+ * first rows when takesSample is set and waits for otherwise.
+ */
+export async function createAvroSerializer(
+  options: StreamExporterOptions,
+  jsonSample: AvroJsonSample = new AvroJsonSample(),
+  takesSample = true
+): Promise<RowSerializer> {
+  const { columns } = options;
+  const avroOptions: AvroOptions = options.avroOptions ?? {};
+  const blockCodec = avroOptions.codec ?? 'null';
+
+  const columnTypes = options.dataset.columnTypes;
+  const jsonColumns = avroOptions.jsonAs === 'record'
+    ? columns.filter(col => ['json', 'jsonb'].includes(getComputedDataType(col, columnTypes[col.source]?.dataType)))
+    : [];
+
+  const syncMarker = crypto.randomBytes(SYNC_MARKER_SIZE);
+  const block = new AvroBuffer();
+  let fields: Array<{ target: string; name: string; codec: AvroCodec }> = [];
+
+  return {
+    async begin(sink, rows) {
+      // Sampled from rows the export reads itself, so the schema matches the exported data
+      if (takesSample) {
+        jsonSample.take(rows);
+      }
+      const sampleRows = jsonColumns.length > 0 ? await jsonSample.rows : [];
+      const jsonSamples = new Map(jsonColumns.map(col => [col.target, sampleRows.map(row => row[col.target])]));
+
+      const fieldNames = new Set<string>();
+      fields = columns.map(col => {
+        const codec = getColumnCodec(col, columnTypes[col.source], jsonSamples.get(col.target));
+        return { target: col.target, name: toAvroName(col.target, fieldNames), codec };
+      });
+      const schema = {
+        type: 'record',
+        name: 'Record',
+        namespace: 'polystream',
+        fields: fields.map(field => ({
+          name: field.name,
+          type: field.codec.schema,
+          ...(Array.isArray(field.codec.schema) ? { default: null } : {}),
+        })),
+      };
+
+      const header = new AvroBuffer();
+      header.writeFixed(AVRO_MAGIC);
+      // File metadata is a map of string to bytes
+      header.writeLong(2);
+      header.writeString('avro.schema');
+      header.writeBytes(Buffer.from(JSON.stringify(schema), 'utf8'));
+      header.writeString('avro.codec');
+      header.writeBytes(Buffer.from(blockCodec, 'utf8'));
+      header.writeLong(0);
+      header.writeFixed(syncMarker);
+      sink(header.take());
+    },
+    async writeRows(rows, sink) {
+      if (rows.length === 0) {
+        return;
+      }
+      for (const row of rows) {
+        for (const field of fields) {
+          field.codec.write(row[field.target], block);
+        }
+      }
+
+      const data = blockCodec === 'deflate' ? await deflateRaw(block.take()) : block.take();
+      const blockHeader = new AvroBuffer();
+      blockHeader.writeLong(rows.length);
+      blockHeader.writeLong(data.length);
+      sink(Buffer.concat([blockHeader.take(), data, syncMarker]));
+    },
+  };
+}
+
+function getColumnCodec(column: ColumnMapping, typeInfo?: ColumnTypeInfo, jsonSample?: any[]): AvroCodec {
+  const computed = isComputedColumn(column);
+  const dataType = computed ? getComputedDataType(column, typeInfo?.dataType) : typeInfo?.dataType ?? 'text';
+  const nullable = computed || !typeInfo || typeInfo.isNullable;
+
+  if (jsonSample && ['json', 'jsonb'].includes(dataType)) {
+    return inferJsonCodec(jsonSample, toAvroName(`${column.target}_record`, new Set()));
+  }
+
+  // Precision and scale only apply if the mapping kept the source column's type
+  const numericInfo = dataType === typeInfo?.dataType ? typeInfo : undefined;
+  const codec = getCodecForType(dataType, numericInfo);
+  return nullable ? nullableCodec(codec) : codec;
+}
+
+function getCodecForType(dataType: string, typeInfo?: ColumnTypeInfo): AvroCodec {
+  switch (dataType) {
+    case 'bigint':
+      return LONG_CODEC;
+    case 'integer':
+    case 'smallint':
+      return INT_CODEC;
+    case 'real':
+      return FLOAT_CODEC;
+    case 'double precision':
+      return DOUBLE_CODEC;
+    case 'boolean':
+      return BOOLEAN_CODEC;
+    case 'date':
+      return DATE_CODEC;
+    case 'timestamp with time zone':
+    case 'timestamp without time zone':
+      return TIMESTAMP_CODEC;
+    case 'json':
+    case 'jsonb':
+      return JSON_STRING_CODEC;
+    case 'numeric':
+      // Unconstrained NUMERIC has no fixed scale, so it cannot be an Avro decimal
+      if (typeInfo?.numericPrecision && typeInfo.numericScale !== null) {
+        return decimalCodec(typeInfo.numericPrecision, typeInfo.numericScale);
+      }
+      return STRING_CODEC;
+    default:
+      return STRING_CODEC;
+  }
+}
+
+const STRING_CODEC: AvroCodec = {
+  schema: 'string',
+  accepts: () => true,
+  write: (value, out) => out.writeString(flattenJsonValue(value)),
+};
+
+const JSON_STRING_CODEC: AvroCodec = {
+  schema: 'string',
+  accepts: () => true,
+  write: (value, out) => out.writeString(JSON.stringify(value)),
+};
+
+// PostgreSQL returns BIGINT as a string, which may exceed Number.MAX_SAFE_INTEGER
+const LONG_CODEC: AvroCodec = {
+  schema: 'long',
+  accepts: value => Number.isSafeInteger(value) || typeof value === 'bigint' ||
+    (typeof value === 'string' && /^-?\d+$/.test(value)),
+  write: (value, out) => {
+    if (typeof value === 'string') {
+      out.writeLong(value.length < 16 ? Number(value) : BigInt(value));
+    } else {
+      out.writeLong(value);
+    }
+  },
+};
+
+const INT_CODEC: AvroCodec = {
+  schema: 'int',
+  accepts: value => Number.isInteger(Number(value)),
+  write: (value, out) => out.writeLong(Number(value)),
+};
+
+const FLOAT_CODEC: AvroCodec = {
+  schema: 'float',
+  accepts: value => typeof value === 'number' || !Number.isNaN(Number(value)),
+  write: (value, out) => out.writeFloat(Number(value)),
+};
+
+const DOUBLE_CODEC: AvroCodec = {
+  schema: 'double',
+  accepts: value => typeof value === 'number' || !Number.isNaN(Number(value)),
+  write: (value, out) => out.writeDouble(Number(value)),
+};
+
+const BOOLEAN_CODEC: AvroCodec = {
+  schema: 'boolean',
+  accepts: value => typeof value === 'boolean',
+  write: (value, out) => out.writeByte(value ? 1 : 0),
+};
+
+// Days since the Unix epoch of the calendar date (pg parses DATE as local midnight)
+const DATE_CODEC: AvroCodec = {
+  schema: { type: 'int', logicalType: 'date' },
+  accepts: value => !Number.isNaN(toDate(value).getTime()),
+  write: (value, out) => out.writeLong(getLocalEpochDay(toDate(value))),
+};
+
+const TIMESTAMP_CODEC: AvroCodec = {
+  schema: { type: 'long', logicalType: 'timestamp-micros' },
+  accepts: value => !Number.isNaN(toDate(value).getTime()),
+  write: (value, out) => out.writeLong(toDate(value).getTime() * 1000),
+};
+
+function decimalCodec(precision: number, scale: number): AvroCodec {
+  const byteLength = getDecimalByteLength(precision);
+  return {
+    schema: { type: 'bytes', logicalType: 'decimal', precision, scale },
+    accepts: value => /^[-+]?\d*(\.\d*)?$/.test(String(value).trim()),
+    write: (value, out) => out.writeBytes(encodeDecimal(value, scale, byteLength)),
+  };
+}
+
+// Union of null and the codec's type; values the type does not accept are written as null
+function nullableCodec(codec: AvroCodec): AvroCodec {
+  return {
+    schema: ['null', codec.schema],
+    accepts: () => true,
+    write: (value, out) => {
+      if (value === null || value === undefined || !codec.accepts(value)) {
+        out.writeLong(0);
+      } else {
+        out.writeLong(1);
+        codec.write(value, out);
+      }
+    },
+  };
+}
+
+/**
+ * Infer a nullable Avro type from sampled JSON values. Objects become records with
+ * a field per key seen in the sample; keys that only appear later are dropped and
+ * values of a different type are written as null.
+ */
+function inferJsonCodec(samples: any[], name: string): AvroCodec {
+  const values = samples.filter(value => value !== null && value !== undefined);
+
+  if (values.length > 0 && values.every(isPlainObject)) {
+    const keys = Array.from(new Set(values.flatMap(value => Object.keys(value))));
+    if (keys.length > 0) {
+      const fieldNames = new Set<string>();
+      const fields = keys.map(key => {
+        const fieldName = toAvroName(key, fieldNames);
+        return {
+          key,
+          name: fieldName,
+          codec: inferJsonCodec(values.map(value => value[key]), `${name}_${fieldName}`),
+        };
+      });
+      return nullableCodec({
+        schema: {
+          type: 'record',
+          name,
+          fields: fields.map(field => ({ name: field.name, type: field.codec.schema, default: null })),
+        },
+        accepts: isPlainObject,
+        write: (value, out) => {
+          for (const field of fields) {
+            field.codec.write(value[field.key], out);
+          }
+        },
+      });
+    }
+  }
+
+  if (values.length > 0 && values.every(Array.isArray)) {
+    const items = inferJsonCodec(values.flat(), `${name}_item`);
+    return nullableCodec({
+      schema: { type: 'array', items: items.schema },
+      accepts: Array.isArray,
+      write: (value: any[], out) => {
+        // Arrays are written as a single block followed by the zero-length end block
+        if (value.length > 0) {
+          out.writeLong(value.length);
+          for (const item of value) {
+            items.write(item, out);
+          }
+        }
+        out.writeLong(0);
+      },
+    });
+  }
+
+  if (values.length > 0 && values.every(value => typeof value === 'boolean')) {
+    return nullableCodec(BOOLEAN_CODEC);
+  }
+  if (values.length > 0 && values.every(value => typeof value === 'number')) {
+    return nullableCodec(values.every(Number.isSafeInteger) ? LONG_CODEC : DOUBLE_CODEC);
+  }
+  // Strings, mixed types and columns without sampled values
+  return nullableCodec(STRING_CODEC);
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function toDate(value: any): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+// Avro names must match [A-Za-z_][A-Za-z0-9_]* and be unique within a record
+function toAvroName(name: string, taken: Set<string>): string {
+  let sanitized = name.replace(/[^A-Za-z0-9_]/g, '_');
+  if (!/^[A-Za-z_]/.test(sanitized)) {
+    sanitized = '_' + sanitized;
+  }
+  let unique = sanitized;
+  for (let i = 2; taken.has(unique); i++) {
+    unique = `${sanitized}_${i}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+// Growable buffer for Avro binary encoding
+class AvroBuffer {
+  private buf = Buffer.alloc(64 * 1024);
+  private length = 0;
+
+  writeByte(byte: number): void {
+    this.ensure(1);
+    this.buf[this.length++] = byte;
+  }
+
+  // Zig-zag varint; numbers are used while exact, larger values go through BigInt
+  writeLong(value: number | bigint): void {
+    if (typeof value === 'number' && Math.abs(value) < 2 ** 52) {
+      let n = value >= 0 ? value * 2 : -value * 2 - 1;
+      this.ensure(10);
+      while (n >= 0x80) {
+        this.buf[this.length++] = (n % 0x80) | 0x80;
+        n = Math.floor(n / 0x80);
+      }
+      this.buf[this.length++] = n;
+      return;
+    }
+
+    const big = BigInt(value);
+    let n = big >= BigInt(0) ? big << BigInt(1) : (-big << BigInt(1)) - BigInt(1);
+    this.ensure(10);
+    while (n >= BigInt(0x80)) {
+      this.buf[this.length++] = Number(n & BigInt(0x7f)) | 0x80;
+      n >>= BigInt(7);
+    }
+    this.buf[this.length++] = Number(n);
+  }
+
+  writeFloat(value: number): void {
+    this.ensure(4);
+    this.buf.writeFloatLE(value, this.length);
+    this.length += 4;
+  }
+
+  writeDouble(value: number): void {
+    this.ensure(8);
+    this.buf.writeDoubleLE(value, this.length);
+    this.length += 8;
+  }
+
+  writeBytes(bytes: Buffer): void {
+    this.writeLong(bytes.length);
+    this.writeFixed(bytes);
+  }
+
+  writeString(value: string): void {
+    const byteLength = Buffer.byteLength(value, 'utf8');
+    this.writeLong(byteLength);
+    this.ensure(byteLength);
+    this.buf.write(value, this.length, 'utf8');
+    this.length += byteLength;
+  }
+
+  writeFixed(bytes: Buffer): void {
+    this.ensure(bytes.length);
+    bytes.copy(this.buf, this.length);
+    this.length += bytes.length;
+  }
+
+  // Copy out the encoded bytes and reset the buffer for reuse
+  take(): Buffer {
+    const out = Buffer.from(this.buf.subarray(0, this.length));
+    this.length = 0;
+    return out;
+  }
+
+  private ensure(bytes: number): void {
+    if (this.length + bytes > this.buf.length) {
+      const grown = Buffer.alloc(Math.max(this.buf.length * 2, this.length + bytes));
+      this.buf.copy(grown, 0, 0, this.length);
+      this.buf = grown;
+    }
+  }
+}
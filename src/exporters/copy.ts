@@ -0,0 +1,203 @@
+import { Readable } from 'stream';
+import { PoolClient } from 'pg';
+import { to as copyTo } from 'pg-copy-streams';
+import { beginExportTransaction, endExportTransaction, getConnection } from '../database';
+import { buildUnboundSelectQuery } from '../query';
+import { isNumericDataType } from '../transforms';
+import { StreamExporterOptions } from '../types';
+import { quoteIdentifier, quoteLiteral } from '../utils';
+import { createCsvSerializer, getCsvDelimiter, resolveCsvDialect } from './csv';
+
+// Column types whose PostgreSQL text output matches what the cursor path writes; timestamps,
+// JSON and floats are rendered differently by node-postgres, so exports with them use the cursor path
+const COPY_DATA_TYPES = [
+  'text',
+  'character varying',
+  'character',
+  'smallint',
+  'integer',
+  'bigint',
+  'numeric',
+  'uuid',
+  'boolean',
+];
+
+// Parsed into JS numbers by node-postgres, so never quoted under non_numeric
+const NUMBER_DATA_TYPES = ['smallint', 'integer'];
+
+const NEWLINE = 0x0a;
+
+export function isCopyDataType(dataType: string | undefined): boolean {
+  return dataType !== undefined && COPY_DATA_TYPES.includes(dataType);
+}
+
+/**
+ * Whether a CSV export can be produced by COPY with output identical to the cursor
+ * path: plain columns only, no parallel partitions, and a dialect COPY can write.
+ * COPY takes no bind parameters, so filtered exports and datasets with parameters
+ * keep the cursor path rather than have values inlined into the SQL.
+ */
+export function canUseCopy(options: StreamExporterOptions): boolean {
+  if (options.csvCopy === false || options.parallel || options.filter || options.dataset.params.length > 0) {
+    return false;
+  }
+  const dialect = resolveCsvDialect(options.csvOptions);
+  if (dialect.lineEnding !== 'lf' || Buffer.byteLength(dialect.quote) !== 1) {
+    return false;
+  }
+  return options.columns.every(
+    col =>
+      !col.path?.length &&
+      !col.transforms?.length &&
+      isCopyDataType(options.dataset.columnTypes[col.source]?.dataType)
+  );
+}
+
+export function buildCopyQuery(options: StreamExporterOptions): string {
+  const { columns, dataset } = options;
+  const dialect = resolveCsvDialect(options.csvOptions);
+
+  // Positional aliases, since a source may be mapped more than once and FORCE_QUOTE needs names
+  const aliases = columns.map((col, index) => quoteIdentifier(`column_${index + 1}`));
+  const selectList = columns.map((col, index) => {
+    const source = quoteIdentifier(col.source);
+    // COPY writes booleans as t/f; the cursor path writes true/false
+    const expression = dataset.columnTypes[col.source].dataType === 'boolean' ? `${source}::text` : source;
+    return `${expression} AS ${aliases[index]}`;
+  });
+
+  const copyOptions = [
+    'FORMAT csv',
+    `DELIMITER ${quoteLiteral(getCsvDelimiter(dialect))}`,
+    `QUOTE ${quoteLiteral(dialect.quote)}`,
+    `NULL ${quoteLiteral(dialect.nullValue)}`,
+  ];
+  if (dialect.quoting === 'all') {
+    copyOptions.push('FORCE_QUOTE *');
+  } else if (dialect.quoting === 'non_numeric') {
+    const quoted = aliases.filter((alias, index) => {
+      const dataType = dataset.columnTypes[columns[index].source].dataType;
+      return !isNumericDataType(dataType) && !NUMBER_DATA_TYPES.includes(dataType);
+    });
+    if (quoted.length > 0) {
+      copyOptions.push(`FORCE_QUOTE (${quoted.join(', ')})`);
+    }
+  }
+
+  return `COPY (${buildUnboundSelectQuery(options, selectList)}) TO STDOUT WITH (${copyOptions.join(', ')})`;
+}
+
+/**
+ * Streams COPY output on demand, pausing the COPY while the consumer is behind. Rows
+ * are counted as line breaks outside quoted fields, for progress reporting.
+ */
+class CopySource extends Readable {
+  private client?: PoolClient;
+  private copy?: Readable;
+  private opening?: Promise<void>;
+  private ended = false;
+  private quoted = false;
+  private rowCount = 0;
+  private readonly abort = () => this.destroy(new Error('Export cancelled'));
+
+  constructor(
+    private readonly text: string,
+    private readonly prefix: string,
+    private readonly quote: number,
+    private readonly options: StreamExporterOptions
+  ) {
+    super();
+  }
+
+  _read(): void {
+    if (this.copy) {
+      this.copy.resume();
+    } else if (!this.opening) {
+      this.opening = this.open();
+    }
+  }
+
+  private async open(): Promise<void> {
+    try {
+      this.client = await getConnection();
+      if (this.destroyed) {
+        return;
+      }
+      if (this.options.signal?.aborted) {
+        throw new Error('Export cancelled');
+      }
+      // A transaction of its own, so the export timeouts apply to this COPY only
+      await beginExportTransaction(this.client);
+      if (this.destroyed) {
+        return;
+      }
+      this.options.signal?.addEventListener('abort', this.abort, { once: true });
+
+      if (this.prefix) {
+        this.push(this.prefix);
+      }
+      const copy = this.client.query(copyTo(this.text));
+      this.copy = copy;
+      copy.on('data', (chunk: Buffer) => {
+        this.countRows(chunk);
+        this.options.onRows?.(this.rowCount);
+        if (!this.push(chunk)) {
+          copy.pause();
+        }
+      });
+      copy.on('end', () => {
+        this.ended = true;
+        this.options.onComplete?.({ rowCount: this.rowCount });
+        this.push(null);
+      });
+      copy.on('error', error => this.destroy(error));
+    } catch (error) {
+      this.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private countRows(chunk: Buffer): void {
+    for (let i = 0; i < chunk.length; i++) {
+      if (chunk[i] === this.quote) {
+        this.quoted = !this.quoted;
+      } else if (chunk[i] === NEWLINE && !this.quoted) {
+        this.rowCount++;
+      }
+    }
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this.options.signal?.removeEventListener('abort', this.abort);
+    (this.opening ?? Promise.resolve())
+      .then(() => {
+        if (!this.client) {
+          return;
+        }
+        if (this.copy && !this.ended) {
+          // A COPY cut short leaves the connection mid-protocol, so it is closed instead of reused
+          this.client.release(true);
+          return;
+        }
+        return endExportTransaction(this.client, this.ended);
+      })
+      .then(
+        () => callback(error),
+        closeError => callback(error ?? closeError)
+      );
+  }
+}
+
+/**
+ * A CSV export streamed from COPY ... TO STDOUT. The BOM and header come from the CSV
+ * serializer, so they match the cursor path and target names are not subject to
+ * PostgreSQL's identifier length limit.
+ */
+export async function createCopyStream(options: StreamExporterOptions): Promise<Readable> {
+  const serializer = await createCsvSerializer(options);
+  let prefix = '';
+  await serializer.begin?.(chunk => {
+    prefix += chunk;
+  }, []);
+  const quote = Buffer.from(resolveCsvDialect(options.csvOptions).quote)[0];
+  return new CopySource(buildCopyQuery(options), prefix, quote, options);
+}
@@ -1,52 +1,134 @@
-import { Readable, PassThrough } from 'stream';
-import { queryStream } from '../database';
-import { StreamExporterOptions, ColumnMapping } from '../types';
-import { escapeCsvValue, flattenJsonValue, selectColumns } from '../utils';
-
-export async function createCsvStream(options: StreamExporterOptions): Promise<Readable> {
-  const passThrough = new PassThrough();
-  const { columns, compression } = options;
-  const rowLimit = Math.max(
-    0,
-    Math.floor(Number(options.rowLimit ?? process.env.EXPORT_ROW_LIMIT ?? 0))
-  );
-  const limitClause = rowLimit > 0 ? ` LIMIT ${rowLimit}` : '';
-
-  // Write CSV header
-  const headerRow = columns.map(col => col.target).join(',');
-  passThrough.write(headerRow + '\n');
-
-  // Stream data from database
-  (async () => {
-    let rowCount = 0;
-    
-    try {
-      const iterator = await queryStream(
-        `SELECT ${columns.map(c => c.source).join(', ')} FROM records${limitClause}`
-      );
-
-      for await (const batch of iterator as any) {
-        for (const row of batch) {
-          const selectedRow = selectColumns(row, columns);
-          const csvRow = Object.values(selectedRow)
-            .map(value => escapeCsvValue(flattenJsonValue(value)))
-            .join(',');
-          
-          passThrough.write(csvRow + '\n');
-          rowCount++;
-
-          // Yield to event loop periodically to prevent blocking
-          if (rowCount % 10000 === 0) {
-            await new Promise(resolve => setImmediate(resolve));
-          }
-        }
-      }
+import { CsvDelimiter, CsvOptions, CsvPreset, CsvQuoting, StreamExporterOptions } from '../types';
+import { getComputedDataType, isNumericDataType } from '../transforms';
+import { escapeCsvValue, flattenJsonValue, quoteCsvValue } from '../utils';
+import { RowSerializer } from './pipeline';
+
+export type CsvDialect = Required<Omit<CsvOptions, 'preset'>>;
+
+const DELIMITERS: Record<CsvDelimiter, string> = {
+  comma: ',',
+  tab: '\t',
+  semicolon: ';',
+  pipe: '|',
+};
+const QUOTING: CsvQuoting[] = ['minimal', 'all', 'non_numeric'];
+
+const DEFAULT_DIALECT: CsvDialect = {
+  delimiter: 'comma',
+  quote: '"',
+  quoting: 'minimal',
+  lineEnding: 'lf',
+  bom: false,
+  header: true,
+  nullValue: '',
+};
+
+const CSV_PRESETS: Record<CsvPreset, Partial<CsvDialect>> = {
+  rfc4180: { delimiter: 'comma', quote: '"', quoting: 'minimal', lineEnding: 'crlf' },
+  excel: { delimiter: 'comma', quote: '"', quoting: 'minimal', lineEnding: 'crlf', bom: true },
+  tsv: { delimiter: 'tab', quoting: 'minimal', lineEnding: 'lf' },
+};
 
-      passThrough.end();
-    } catch (error) {
-      passThrough.destroy(error as Error);
+// Preset first, then explicitly set options on top
+export function resolveCsvDialect(options: CsvOptions = {}): CsvDialect {
+  const { preset, ...overrides } = options;
+  const explicit = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return { ...DEFAULT_DIALECT, ...(preset ? CSV_PRESETS[preset] : {}), ...explicit };
+}
+
+export function getCsvDelimiter(dialect: CsvDialect): string {
+  return DELIMITERS[dialect.delimiter];
+}
+
+// Returns an error message for invalid csvOptions, or null if they are valid
+export function validateCsvOptions(options: any): string | null {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return 'csvOptions must be an object';
+  }
+  if (options.preset !== undefined && !(options.preset in CSV_PRESETS)) {
+    return `Invalid CSV preset. Must be one of: ${Object.keys(CSV_PRESETS).join(', ')}`;
+  }
+  if (options.delimiter !== undefined && !(options.delimiter in DELIMITERS)) {
+    return `Invalid CSV delimiter. Must be one of: ${Object.keys(DELIMITERS).join(', ')}`;
+  }
+  if (options.quote !== undefined && (typeof options.quote !== 'string' || options.quote.length !== 1)) {
+    return 'CSV quote must be a single character';
+  }
+  if (options.quoting !== undefined && !QUOTING.includes(options.quoting)) {
+    return `Invalid CSV quoting. Must be one of: ${QUOTING.join(', ')}`;
+  }
+  if (options.lineEnding !== undefined && !['lf', 'crlf'].includes(options.lineEnding)) {
+    return 'Invalid CSV lineEnding. Must be lf or crlf';
+  }
+  for (const flag of ['bom', 'header']) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+      return `CSV ${flag} must be a boolean`;
     }
-  })();
+  }
+  if (options.nullValue !== undefined && typeof options.nullValue !== 'string') {
+    return 'CSV nullValue must be a string';
+  }
 
-  return passThrough;
+  // The resolved characters must not be ambiguous with each other
+  const dialect = resolveCsvDialect(options);
+  const delimiter = getCsvDelimiter(dialect);
+  if (['\r', '\n', delimiter].includes(dialect.quote)) {
+    return 'CSV quote must differ from the delimiter and line endings';
+  }
+  if ([delimiter, dialect.quote, '\r', '\n'].some(char => dialect.nullValue.includes(char))) {
+    return 'CSV nullValue must not contain the delimiter, quote or line breaks';
+  }
+  return null;
+}
+
+export async function createCsvSerializer(options: StreamExporterOptions): Promise<RowSerializer> {
+  const { columns } = options;
+  const dialect = resolveCsvDialect(options.csvOptions);
+  const delimiter = getCsvDelimiter(dialect);
+  const newline = dialect.lineEnding === 'crlf' ? '\r\n' : '\n';
+
+  let numericColumns = columns.map(() => false);
+  if (dialect.quoting === 'non_numeric') {
+    const columnTypes = options.dataset.columnTypes;
+    numericColumns = columns.map(col =>
+      isNumericDataType(getComputedDataType(col, columnTypes[col.source]?.dataType))
+    );
+  }
+
+  const formatField = (value: any, numeric: boolean): string => {
+    if (value === null || value === undefined) {
+      return dialect.nullValue;
+    }
+    const text = flattenJsonValue(value);
+    // A value that looks like the null marker is quoted to keep the two apart
+    if (
+      dialect.quoting === 'all' ||
+      (dialect.quoting === 'non_numeric' && !numeric && typeof value !== 'number') ||
+      text === dialect.nullValue
+    ) {
+      return quoteCsvValue(text, dialect.quote);
+    }
+    return escapeCsvValue(text, delimiter, dialect.quote);
+  };
+
+  return {
+    begin(sink) {
+      let prefix = dialect.bom ? '\uFEFF' : '';
+      if (dialect.header) {
+        prefix += columns.map(col => formatField(col.target, false)).join(delimiter) + newline;
+      }
+      if (prefix) {
+        sink(prefix);
+      }
+    },
+    writeRows(rows, sink) {
+      let chunk = '';
+      for (const row of rows) {
+        chunk += columns
+          .map((col, index) => formatField(row[col.target], numericColumns[index]))
+          .join(delimiter) + newline;
+      }
+      sink(chunk);
+    },
+  };
 }
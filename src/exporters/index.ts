@@ -1,23 +1,136 @@
-import { Readable } from 'stream';
-import { ExportFormat, StreamExporterOptions } from '../types';
-import { createCsvStream } from './csv';
-import { createJsonStream } from './json';
-import { createXmlStream } from './xml';
-import { createParquetStream } from './parquet';
+import { Readable, Transform, TransformCallback, pipeline } from 'stream';
+import { ExportFormat, SplitOptions, StreamExporterOptions } from '../types';
+import { createCsvSerializer } from './csv';
+import { canUseCopy, createCopyStream } from './copy';
+import { createJsonSerializer } from './json';
+import { createNdjsonSerializer } from './ndjson';
+import { createXmlSerializer } from './xml';
+import { createParquetSerializer } from './parquet';
+import { createXlsxSerializer } from './xlsx';
+import { AvroJsonSample, createAvroSerializer } from './avro';
+import { createRowStream, PartRange, RowSerializer, writeParallelParts, writeSplitParts } from './pipeline';
+
+// Counts bytes as the consumer reads them
+class ByteCounter extends Transform {
+  byteCount = 0;
+
+  constructor(private readonly onBytes: (byteCount: number) => void) {
+    super();
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    this.byteCount += chunk.length;
+    this.onBytes(this.byteCount);
+    callback(null, chunk);
+  }
+}
 
 export async function createExportStream(
   format: ExportFormat,
   options: StreamExporterOptions
 ): Promise<Readable> {
+  const { onProgress } = options;
+  if (!onProgress) {
+    return createFormatStream(format, options);
+  }
+
+  // Combine row counts reported by the exporter with bytes counted on the way out
+  let rowCount = 0;
+  let byteCount = 0;
+  const source = await createFormatStream(format, {
+    ...options,
+    onRows: rows => {
+      rowCount = rows;
+      options.onRows?.(rows);
+      onProgress({ rowCount, byteCount });
+    },
+  });
+  const counter = new ByteCounter(bytes => {
+    byteCount = bytes;
+    onProgress({ rowCount, byteCount });
+  });
+
+  // Errors and destruction propagate in both directions; consumers observe them on the counter
+  pipeline(source, counter, () => {});
+  return counter;
+}
+
+/**
+ * Run an export as numbered standalone parts: consecutive parts cut at the split
+ * limits, or without split one part per id range of a parallel export. storePart
+ * receives the byte stream of each part and resolves once it has been stored.
+ */
+export async function runSplitExport(
+  format: ExportFormat,
+  options: StreamExporterOptions,
+  split: SplitOptions | undefined,
+  storePart: (index: number, output: Readable) => Promise<void>
+): Promise<PartRange[]> {
+  const { onProgress } = options;
+  let rowCount = 0;
+  // Bytes of each part so far; parallel parts are written at the same time
+  const partBytes: number[] = [];
+  const byteCount = () => partBytes.reduce((total, bytes) => total + bytes, 0);
+
+  const rowOptions: StreamExporterOptions = {
+    ...options,
+    onRows: rows => {
+      rowCount = rows;
+      options.onRows?.(rows);
+      onProgress?.({ rowCount, byteCount: byteCount() });
+    },
+  };
+  // Parts share one Avro schema, sampled from the first rows of part 1
+  const avroSample = new AvroJsonSample();
+  const createPartSerializer = (part: number) => createSerializer(format, options, part, avroSample);
+  const countPart = (index: number, output: Readable): Promise<void> => {
+    if (!onProgress) {
+      return storePart(index, output);
+    }
+    const counter = new ByteCounter(bytes => {
+      partBytes[index - 1] = bytes;
+      onProgress({ rowCount, byteCount: byteCount() });
+    });
+    pipeline(output, counter, () => {});
+    return storePart(index, counter);
+  };
+
+  return split
+    ? writeSplitParts(rowOptions, createPartSerializer, split, countPart)
+    : writeParallelParts(rowOptions, createPartSerializer, countPart);
+}
+
+async function createFormatStream(
+  format: ExportFormat,
+  options: StreamExporterOptions
+): Promise<Readable> {
+  if (format === 'csv' && canUseCopy(options)) {
+    return createCopyStream(options);
+  }
+  return createRowStream(options, await createSerializer(format, options));
+}
+
+function createSerializer(
+  format: ExportFormat,
+  options: StreamExporterOptions,
+  part = 1,
+  avroSample?: AvroJsonSample
+): RowSerializer | Promise<RowSerializer> {
   switch (format) {
     case 'csv':
-      return createCsvStream(options);
+      return createCsvSerializer(options);
     case 'json':
-      return createJsonStream(options);
+      return createJsonSerializer(options);
+    case 'ndjson':
+      return createNdjsonSerializer(options);
     case 'xml':
-      return createXmlStream(options);
+      return createXmlSerializer(options);
     case 'parquet':
-      return createParquetStream(options);
+      return createParquetSerializer(options);
+    case 'xlsx':
+      return createXlsxSerializer(options);
+    case 'avro':
+      return createAvroSerializer(options, avroSample, part === 1);
     default:
       throw new Error(`Unsupported format: ${format}`);
   }
@@ -29,10 +142,16 @@ export function getContentType(format: ExportFormat): string {
       return 'text/csv';
     case 'json':
       return 'application/json';
+    case 'ndjson':
+      return 'application/x-ndjson';
     case 'xml':
       return 'application/xml';
     case 'parquet':
-      return 'application/octet-stream';
+      return 'application/vnd.apache.parquet';
+    case 'xlsx':
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    case 'avro':
+      return 'application/avro';
     default:
       return 'application/octet-stream';
   }
@@ -44,11 +163,22 @@ export function getFileExtension(format: ExportFormat): string {
       return 'csv';
     case 'json':
       return 'json';
+    case 'ndjson':
+      return 'jsonl';
     case 'xml':
       return 'xml';
     case 'parquet':
       return 'parquet';
+    case 'xlsx':
+      return 'xlsx';
+    case 'avro':
+      return 'avro';
     default:
       return 'bin';
   }
 }
+
+// Formats that are compressed internally gain nothing from a content coding
+export function isCompressedFormat(format: ExportFormat): boolean {
+  return format === 'parquet' || format === 'xlsx';
+}
@@ -1,55 +1,184 @@
-import { Readable, PassThrough } from 'stream';
-import { queryStream } from '../database';
-import { StreamExporterOptions } from '../types';
-import { selectColumns } from '../utils';
-
-export async function createJsonStream(options: StreamExporterOptions): Promise<Readable> {
-  const passThrough = new PassThrough();
-  const { columns } = options;
-  const rowLimit = Math.max(
-    0,
-    Math.floor(Number(options.rowLimit ?? process.env.EXPORT_ROW_LIMIT ?? 0))
+import { ColumnMapping, JsonOptions, StreamExporterOptions } from '../types';
+import { getComputedDataType } from '../transforms';
+import { formatLocalDate, SelectOptions } from '../utils';
+import { RowSerializer } from './pipeline';
+
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+// A number written verbatim, so NUMERIC and BIGINT digits survive serialization
+class JsonNumber {
+  constructor(readonly text: string) {}
+}
+
+// Output keys in column order; nested keys carry the keys below them
+interface JsonKey {
+  name: string;
+  quoted: string;
+  children?: JsonKey[];
+}
+
+export interface JsonEncoding {
+  select?: SelectOptions;
+  stringify(row: Record<string, any>): string;
+}
+
+// Returns an error message for invalid jsonOptions, or null if they are valid
+export function validateJsonOptions(options: any, columns: ColumnMapping[]): string | null {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return 'jsonOptions must be an object';
+  }
+  for (const key of ['decimals', 'bigints']) {
+    if (options[key] !== undefined && !['string', 'number'].includes(options[key])) {
+      return `Invalid JSON ${key}. Must be string or number`;
+    }
+  }
+  if (options.timestamps !== undefined && !['iso', 'epoch_ms'].includes(options.timestamps)) {
+    return 'Invalid JSON timestamps. Must be iso or epoch_ms';
+  }
+  if (options.nest !== undefined && typeof options.nest !== 'boolean') {
+    return 'JSON nest must be a boolean';
+  }
+
+  if (options.nest) {
+    const targets = columns.map(col => col.target);
+    for (const target of targets) {
+      if (target.split('.').some(key => key === '')) {
+        return `Column target "${target}" has an empty segment and cannot be nested`;
+      }
+      const parent = targets.find(other => target.startsWith(other + '.'));
+      if (parent) {
+        return `Column target "${target}" is nested under "${parent}", which is also a column`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Typed value encoding shared by the JSON and NDJSON serializers. Without
+ * jsonOptions rows are written exactly as pg returns them.
+ */
+export async function createJsonEncoding(options: StreamExporterOptions): Promise<JsonEncoding> {
+  const { columns, jsonOptions } = options;
+  if (!jsonOptions) {
+    return { stringify: row => JSON.stringify(row) };
+  }
+
+  const columnTypes = options.dataset.columnTypes;
+  const encoders = columns.map(col =>
+    getValueEncoder(getComputedDataType(col, columnTypes[col.source]?.dataType), jsonOptions)
   );
-  const limitClause = rowLimit > 0 ? ` LIMIT ${rowLimit}` : '';
+  const keys = buildKeys(columns, jsonOptions.nest ?? false);
 
-  // Start JSON array
-  passThrough.write('[\n');
+  return {
+    select: {
+      nest: jsonOptions.nest,
+      encode: (value, index) => encoders[index](value),
+    },
+    stringify: row => stringifyObject(row, keys),
+  };
+}
 
+export async function createJsonSerializer(options: StreamExporterOptions): Promise<RowSerializer> {
+  const { select, stringify } = await createJsonEncoding(options);
   let firstRow = true;
-  let rowCount = 0;
-
-  (async () => {
-    try {
-      const iterator = await queryStream(
-        `SELECT ${columns.map(c => c.source).join(', ')} FROM records${limitClause}`
-      );
-
-      for await (const batch of iterator as any) {
-        for (const row of batch) {
-          const selectedRow = selectColumns(row, columns);
-          
-          // Add comma before each row except the first
-          if (!firstRow) {
-            passThrough.write(',\n');
-          }
-          
-          passThrough.write(JSON.stringify(selectedRow));
-          firstRow = false;
-          rowCount++;
-
-          // Yield to event loop periodically
-          if (rowCount % 10000 === 0) {
-            await new Promise(resolve => setImmediate(resolve));
-          }
+
+  return {
+    select,
+    begin(sink) {
+      // Start JSON array
+      sink('[\n');
+    },
+    writeRows(rows, sink) {
+      let chunk = '';
+      for (const row of rows) {
+        // Add comma before each row except the first
+        if (!firstRow) {
+          chunk += ',\n';
+        }
+        chunk += stringify(row);
+        firstRow = false;
+      }
+      sink(chunk);
+    },
+    end(sink) {
+      sink('\n]');
+    },
+  };
+}
+
+function getValueEncoder(dataType: string, options: JsonOptions): (value: any) => any {
+  switch (dataType) {
+    case 'numeric':
+      return options.decimals === 'number' ? toJsonNumber : toJsonString;
+    case 'bigint':
+      return options.bigints === 'number' ? toJsonNumber : toJsonString;
+    default:
+      return value => {
+        if (!(value instanceof Date)) {
+          return value;
+        }
+        if (isNaN(value.getTime())) {
+          return null;
         }
+        if (dataType === 'date') {
+          // Calendar dates have no time zone; epoch millis are for UTC midnight
+          return options.timestamps === 'epoch_ms'
+            ? Date.UTC(value.getFullYear(), value.getMonth(), value.getDate())
+            : formatLocalDate(value);
+        }
+        return options.timestamps === 'epoch_ms'
+          ? value.getTime()
+          : value.toISOString().replace(/Z$/, '+00:00');
+      };
+  }
+}
+
+function toJsonNumber(value: any): any {
+  if (typeof value === 'string' && JSON_NUMBER.test(value)) {
+    return new JsonNumber(value);
+  }
+  // NaN and Infinity have no JSON number form and stay strings
+  return value;
+}
+
+function toJsonString(value: any): any {
+  return typeof value === 'number' || typeof value === 'bigint' ? String(value) : value;
+}
+
+function buildKeys(columns: ColumnMapping[], nest: boolean): JsonKey[] {
+  const keys: JsonKey[] = [];
+  for (const { target } of columns) {
+    let level = keys;
+    const names = nest ? target.split('.') : [target];
+    names.forEach((name, depth) => {
+      let key = level.find(existing => existing.name === name);
+      if (!key) {
+        key = { name, quoted: JSON.stringify(name) };
+        level.push(key);
+      }
+      if (depth < names.length - 1) {
+        key.children = key.children ?? [];
+        level = key.children;
       }
+    });
+  }
+  return keys;
+}
 
-      passThrough.write('\n]');
-      passThrough.end();
-    } catch (error) {
-      passThrough.destroy(error as Error);
+function stringifyObject(obj: Record<string, any>, keys: JsonKey[]): string {
+  const members: string[] = [];
+  for (const key of keys) {
+    const value = obj[key.name];
+    if (value === undefined) {
+      continue;
     }
-  })();
+    const json = key.children ? stringifyObject(value, key.children) : stringifyValue(value);
+    members.push(`${key.quoted}:${json}`);
+  }
+  return `{${members.join(',')}}`;
+}
 
-  return passThrough;
+function stringifyValue(value: any): string {
+  return value instanceof JsonNumber ? value.text : JSON.stringify(value) ?? 'null';
 }
@@ -0,0 +1,19 @@
+import { StreamExporterOptions } from '../types';
+import { createJsonEncoding } from './json';
+import { RowSerializer } from './pipeline';
+
+// JSON Lines: one object per line, no enclosing array
+export async function createNdjsonSerializer(options: StreamExporterOptions): Promise<RowSerializer> {
+  const { select, stringify } = await createJsonEncoding(options);
+
+  return {
+    select,
+    writeRows(rows, sink) {
+      let chunk = '';
+      for (const row of rows) {
+        chunk += stringify(row) + '\n';
+      }
+      sink(chunk);
+    },
+  };
+}
@@ -0,0 +1,297 @@
+import { Readable } from 'stream';
+import { PoolClient } from 'pg';
+import { endExportTransaction, getConnection, POOL_SIZE, queryStream, setExportTimeouts } from '../database';
+import { buildIdBoundsQuery, buildSelectQuery, SelectQuery } from '../query';
+import { FilterNode, StreamExporterOptions } from '../types';
+
+export const PARALLEL_ID_TYPES = ['bigint', 'integer', 'smallint'];
+
+// Batches each partition reads ahead of the one being written, when exporting in id order
+const PREFETCH_BATCHES = 1;
+
+/**
+ * Connections all parallel exports may hold at once. Each uses one per partition
+ * plus one that holds the exported snapshot; the rest of the pool stays free for
+ * API requests and single-cursor exports.
+ */
+export function getParallelConnectionLimit(): number {
+  const limit = Math.floor(Number(process.env.EXPORT_PARALLEL_CONNECTIONS || POOL_SIZE / 2));
+  return Math.min(Math.max(limit, 3), POOL_SIZE - 1);
+}
+
+export function getMaxPartitions(): number {
+  return getParallelConnectionLimit() - 1;
+}
+
+// Returns an error message for invalid parallel options, or null if they are valid
+export function validateParallelOptions(parallel: any): string | null {
+  if (!parallel || typeof parallel !== 'object' || Array.isArray(parallel)) {
+    return 'parallel must be an object';
+  }
+  const max = getMaxPartitions();
+  if (!Number.isInteger(parallel.partitions) || parallel.partitions < 2 || parallel.partitions > max) {
+    return `parallel partitions must be an integer from 2 to ${max}`;
+  }
+  if (parallel.output !== undefined && !['ordered', 'parts'].includes(parallel.output)) {
+    return 'Invalid parallel output. Must be ordered or parts';
+  }
+  return null;
+}
+
+// Hands out connections to parallel exports; an export waits until all it needs are free
+class ConnectionBudget {
+  private waiters: Array<{ count: number; resolve: () => void }> = [];
+
+  constructor(private available: number) {}
+
+  async acquire(count: number, signal?: AbortSignal): Promise<void> {
+    if (this.waiters.length === 0 && this.available >= count) {
+      this.available -= count;
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const waiter = { count, resolve };
+      this.waiters.push(waiter);
+      signal?.addEventListener(
+        'abort',
+        () => {
+          const index = this.waiters.indexOf(waiter);
+          if (index !== -1) {
+            this.waiters.splice(index, 1);
+            reject(new Error('Export cancelled'));
+          }
+        },
+        { once: true }
+      );
+    });
+  }
+
+  release(count: number): void {
+    this.available += count;
+    // First come, first served, so large exports are not starved by small ones
+    while (this.waiters.length > 0 && this.waiters[0].count <= this.available) {
+      const waiter = this.waiters.shift() as { count: number; resolve: () => void };
+      this.available -= waiter.count;
+      waiter.resolve();
+    }
+  }
+}
+
+const budget = new ConnectionBudget(getParallelConnectionLimit());
+
+export interface PartitionPlan {
+  snapshotId: string;
+  // Filter of each partition, in id order; empty when the export has no rows
+  filters: FilterNode[];
+  // Ends the snapshot transaction and returns the export's connections to the budget
+  release(): Promise<void>;
+}
+
+/**
+ * Export a snapshot and split the export's ids into equal ranges. The transaction
+ * that exported the snapshot stays open until release, so partitions can import it
+ * whenever they start.
+ */
+export async function openPartitionPlan(options: StreamExporterOptions): Promise<PartitionPlan> {
+  // Jobs created under a higher limit wait for connections that could never all be free
+  const partitions = Math.min(options.parallel?.partitions ?? 1, getMaxPartitions());
+  await budget.acquire(partitions + 1, options.signal);
+
+  let client: PoolClient | undefined;
+  try {
+    client = await getConnection();
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    await setExportTimeouts(client, false);
+    const snapshot = await client.query('SELECT pg_export_snapshot() AS snapshot');
+    const bounds = buildIdBoundsQuery(options);
+    const result = await client.query(bounds.text, bounds.params);
+    const { min, max } = result.rows[0];
+
+    const filters = min === null
+      ? []
+      : splitIdRange(BigInt(min), BigInt(max), partitions).map(([from, to]) => addIdRange(options.filter, from, to));
+    const snapshotClient = client;
+    let released = false;
+    return {
+      snapshotId: snapshot.rows[0].snapshot,
+      filters,
+      async release() {
+        if (released) {
+          return;
+        }
+        released = true;
+        try {
+          await endExportTransaction(snapshotClient, true);
+        } finally {
+          budget.release(partitions + 1);
+        }
+      },
+    };
+  } catch (error) {
+    if (client) {
+      await endExportTransaction(client, false);
+    }
+    budget.release(partitions + 1);
+    throw error;
+  }
+}
+
+// The SELECT for one partition; rows within it are ordered by id and the row limit is already in its range
+export function buildPartitionQuery(options: StreamExporterOptions, filter: FilterNode): SelectQuery {
+  return buildSelectQuery({ ...options, filter, orderBy: [{ field: 'id' }], rowLimit: 0 });
+}
+
+// Split [min, max] into at most count contiguous ranges of equal width
+function splitIdRange(min: bigint, max: bigint, count: number): Array<[bigint, bigint]> {
+  const width = (max - min + BigInt(1) + BigInt(count - 1)) / BigInt(count);
+  const ranges: Array<[bigint, bigint]> = [];
+  for (let from = min; from <= max; from += width) {
+    const to = from + width - BigInt(1);
+    ranges.push([from, to < max ? to : max]);
+  }
+  return ranges;
+}
+
+function addIdRange(filter: FilterNode | undefined, from: bigint, to: bigint): FilterNode {
+  const range: FilterNode[] = [
+    { field: 'id', operator: 'gte', value: from.toString() },
+    { field: 'id', operator: 'lte', value: to.toString() },
+  ];
+  return { and: filter ? [filter, ...range] : range };
+}
+
+// Reads one partition's cursor ahead of its consumer, holding at most PREFETCH_BATCHES batches
+class PartitionReader {
+  private readonly queue: any[][] = [];
+  private fetching?: Promise<void>;
+  private done = false;
+  private error?: Error;
+  private wake?: () => void;
+
+  constructor(private readonly rows: AsyncIterator<any[]>) {
+    this.fill();
+  }
+
+  async next(): Promise<any[] | null> {
+    while (true) {
+      if (this.error) {
+        throw this.error;
+      }
+      if (this.queue.length > 0) {
+        const batch = this.queue.shift() as any[];
+        this.fill();
+        return batch;
+      }
+      if (this.done) {
+        return null;
+      }
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.fetching;
+    if (!this.done) {
+      await this.rows.return?.();
+    }
+  }
+
+  private fill(): void {
+    if (this.fetching || this.done || this.error || this.queue.length >= PREFETCH_BATCHES) {
+      return;
+    }
+    this.fetching = this.rows.next().then(
+      result => {
+        this.fetching = undefined;
+        if (result.done) {
+          this.done = true;
+        } else {
+          this.queue.push(result.value);
+          this.fill();
+        }
+        this.wake?.();
+      },
+      error => {
+        this.fetching = undefined;
+        this.error = error instanceof Error ? error : new Error(String(error));
+        this.wake?.();
+      }
+    );
+  }
+}
+
+/**
+ * Batches of a parallel export in id order. Every partition reads ahead on its own
+ * connection while earlier partitions are written, so memory stays bounded by
+ * PREFETCH_BATCHES per partition.
+ */
+export class PartitionedRowSource extends Readable {
+  private plan?: PartitionPlan;
+  private readers: PartitionReader[] = [];
+  private current = 0;
+  private reading: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly options: StreamExporterOptions,
+    private readonly batchSize?: number
+  ) {
+    super({ objectMode: true, highWaterMark: 1 });
+  }
+
+  _read(): void {
+    this.reading = this.fetchBatch();
+  }
+
+  private async fetchBatch(): Promise<void> {
+    try {
+      if (!this.plan) {
+        await this.open();
+      }
+      while (this.current < this.readers.length) {
+        const batch = await this.readers[this.current].next();
+        if (batch) {
+          if (!this.destroyed) {
+            this.push(batch);
+          }
+          return;
+        }
+        this.current++;
+      }
+      if (!this.destroyed) {
+        this.push(null);
+      }
+    } catch (error) {
+      this.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async open(): Promise<void> {
+    this.plan = await openPartitionPlan(this.options);
+    for (const filter of this.plan.filters) {
+      const query = buildPartitionQuery(this.options, filter);
+      // Later partitions sit idle until every earlier one has been written, however long that takes
+      const cursor = await queryStream(
+        query.text,
+        query.params,
+        this.batchSize,
+        this.options.signal,
+        this.plan.snapshotId,
+        false
+      );
+      this.readers.push(new PartitionReader(cursor[Symbol.asyncIterator]()));
+    }
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    // Close every cursor, then end the snapshot transaction
+    this.reading
+      .then(() => Promise.all(this.readers.map(reader => reader.close())))
+      .then(() => this.plan?.release())
+      .then(
+        () => callback(error),
+        closeError => callback(error ?? closeError)
+      );
+  }
+}
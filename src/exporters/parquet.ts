@@ -1,123 +1,233 @@
-import { Readable, PassThrough } from 'stream';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-import { queryStream } from '../database';
+import { ParquetSchema, ParquetFieldOptions, ParquetWriter, ParquetEnvelopeWriter } from 'parquetjs';
+import { serializeThrift } from 'parquetjs/lib/util';
+import * as parquetThrift from 'parquetjs/gen-nodejs/parquet_types';
+import { ColumnTypeInfo } from '../database';
 import { StreamExporterOptions, ColumnMapping } from '../types';
-import { selectColumns } from '../utils';
-
-// Using a simple Parquet writer approach
-// Note: For production, consider using Apache Arrow or pyarrow
-// This implementation writes a simple columnar format
+import { flattenJsonValue, encodeDecimal, getDecimalByteLength, getLocalEpochDay } from '../utils';
+import { isComputedColumn, getComputedDataType } from '../transforms';
+import { RowSerializer } from './pipeline';
+
+const PARQUET_MAGIC = 'PAR1';
+const DEFAULT_ROW_GROUP_SIZE = 50000;
+
+// Describes how a single exported column is stored in the Parquet file
+interface ParquetColumnSpec {
+  target: string;
+  field: ParquetFieldOptions;
+  decimal?: { precision: number; scale: number };
+  toValue: (value: any) => any;
+}
 
-export async function createParquetStream(options: StreamExporterOptions): Promise<Readable> {
-  const passThrough = new PassThrough();
+export async function createParquetSerializer(options: StreamExporterOptions): Promise<RowSerializer> {
   const { columns } = options;
-  const rowLimit = Math.max(
-    0,
-    Math.floor(Number(options.rowLimit ?? process.env.EXPORT_ROW_LIMIT ?? 0))
+  const rowGroupSize = Math.max(
+    1,
+    Math.floor(Number(process.env.PARQUET_ROW_GROUP_SIZE || DEFAULT_ROW_GROUP_SIZE))
   );
-  const limitClause = rowLimit > 0 ? ` LIMIT ${rowLimit}` : '';
-
-  const tempDir = path.join(os.tmpdir(), `parquet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-  
-  // Create temp directory
-  if (!fs.existsSync(tempDir)) {
-    fs.mkdirSync(tempDir, { recursive: true });
-  }
 
-  const tempFile = path.join(tempDir, 'data.parquet');
-
-  (async () => {
-    let iterator: any = null;
-    
-    try {
-      // For true Parquet support, we need to use a library like parquetjs
-      // This implementation writes a simplified format that includes schema and data
-      
-      // Initialize writer with schema information
-      const schema = getParquetSchema(columns);
-      
-      // Collect batches and write to file
-      const batches: any[][] = [];
-      let rowCount = 0;
-
-      iterator = await queryStream(
-        `SELECT ${columns.map(c => c.source).join(', ')} FROM records${limitClause}`,
-        [],
-        50000 // Larger batch size for Parquet
+  // Infer physical/logical types from the dataset's columns
+  const columnTypes = options.dataset.columnTypes;
+  const specs = columns.map(col => getParquetColumnSpec(col, columnTypes[col.source]));
+  const schema = new ParquetSchema(
+    Object.fromEntries(specs.map(spec => [spec.target, { ...spec.field, compression: 'SNAPPY' }]))
+  );
+  let writer: ParquetWriter;
+
+  return {
+    batchSize: 50000, // Larger batch size for Parquet
+    begin(sink) {
+      // Finished row groups go straight to the pipeline, which holds back the
+      // next batch until the consumer has drained them
+      const envelopeWriter = new TypedEnvelopeWriter(
+        schema,
+        specs,
+        async (buf: Buffer) => sink(buf),
+        async () => {},
+        0,
+        { useDataPageV2: false }
       );
-
-      for await (const batch of iterator as any) {
-        const processedBatch = (batch as any[]).map((row: any) => {
-          const selectedRow = selectColumns(row, columns);
-          return columns.map(col => selectedRow[col.target]);
-        });
-        
-        batches.push(...processedBatch);
-        rowCount += batch.length;
-
-        // Write batches incrementally to avoid memory overflow
-        if (batches.length >= 100000) {
-          // In production, write row groups to file here
-          await writeBatch(tempFile, batches, schema);
-          batches.length = 0;
+      writer = new ParquetWriter(schema, envelopeWriter, { rowGroupSize, useDataPageV2: false });
+    },
+    async writeRows(rows) {
+      for (const row of rows) {
+        const record: Record<string, any> = {};
+        for (const spec of specs) {
+          const value = row[spec.target];
+          if (value !== null && value !== undefined) {
+            record[spec.target] = spec.toValue(value);
+          }
         }
+        // appendRow flushes a row group once rowGroupSize rows are buffered
+        await writer.appendRow(record);
+      }
+    },
+    async end() {
+      await writer.close();
+    },
+  };
+}
 
-        if (rowCount % 100000 === 0) {
-          await new Promise(resolve => setImmediate(resolve));
-        }
+function getParquetColumnSpec(column: ColumnMapping, typeInfo?: ColumnTypeInfo): ParquetColumnSpec {
+  if (isComputedColumn(column)) {
+    // Path extraction and transforms may yield NULL or change the type of the source column
+    const dataType = getComputedDataType(column, typeInfo?.dataType);
+    return getParquetSpecForType(
+      column,
+      dataType,
+      true,
+      dataType === typeInfo?.dataType ? typeInfo : undefined
+    );
+  }
+  return getParquetSpecForType(
+    column,
+    typeInfo?.dataType ?? 'text',
+    typeInfo ? typeInfo.isNullable : true,
+    typeInfo
+  );
+}
+
+function getParquetSpecForType(
+  column: ColumnMapping,
+  dataType: string,
+  optional: boolean,
+  typeInfo?: ColumnTypeInfo
+): ParquetColumnSpec {
+  switch (dataType) {
+    case 'bigint':
+      return { target: column.target, field: { type: 'INT64', optional }, toValue: v => toSafeInt64(v, column) };
+    case 'integer':
+    case 'smallint':
+      return { target: column.target, field: { type: 'INT32', optional }, toValue: v => v };
+    case 'real':
+      return { target: column.target, field: { type: 'FLOAT', optional }, toValue: Number };
+    case 'double precision':
+      return { target: column.target, field: { type: 'DOUBLE', optional }, toValue: Number };
+    case 'boolean':
+      return { target: column.target, field: { type: 'BOOLEAN', optional }, toValue: Boolean };
+    case 'date':
+      // pg parses DATE as local midnight; parquetjs divides getTime() by a day, so hand it UTC midnight
+      // of the same calendar day (a plain day count would reject dates before 1970)
+      return {
+        target: column.target,
+        field: { type: 'DATE', optional },
+        toValue: v => new Date(getLocalEpochDay(v instanceof Date ? v : new Date(v)) * 86400000),
+      };
+    case 'timestamp with time zone':
+    case 'timestamp without time zone':
+      return {
+        target: column.target,
+        field: { type: 'TIMESTAMP_MICROS', optional },
+        toValue: v => (v instanceof Date ? v : new Date(v)),
+      };
+    case 'json':
+    case 'jsonb':
+      return { target: column.target, field: { type: 'JSON', optional }, toValue: v => v };
+    case 'numeric':
+      // Unconstrained NUMERIC has no fixed scale, so it cannot be stored as a Parquet DECIMAL
+      if (typeInfo?.numericPrecision && typeInfo.numericScale !== null) {
+        const precision = typeInfo.numericPrecision;
+        const scale = typeInfo.numericScale;
+        const typeLength = getDecimalByteLength(precision);
+        return {
+          target: column.target,
+          field: { type: 'FIXED_LEN_BYTE_ARRAY', typeLength, optional },
+          decimal: { precision, scale },
+          toValue: v => encodeDecimal(v, scale, typeLength),
+        };
       }
+      return { target: column.target, field: { type: 'UTF8', optional }, toValue: v => String(v) };
+    default:
+      return { target: column.target, field: { type: 'UTF8', optional }, toValue: flattenJsonValue };
+  }
+}
+
+// parquetjs parses INT64 values into JS numbers, which would silently round anything past 2^53
+function toSafeInt64(value: any, column: ColumnMapping): number {
+  const n = Number(value);
+  if (!Number.isSafeInteger(n)) {
+    throw new Error(
+      `Value ${value} of column ${column.target} is outside the range Parquet INT64 values can be written ` +
+        `exactly (±${Number.MAX_SAFE_INTEGER})`
+    );
+  }
+  return n;
+}
 
-      // Write remaining batches
-      if (batches.length > 0) {
-        await writeBatch(tempFile, batches, schema);
+/**
+ * Envelope writer that emits the DECIMAL annotation (precision/scale) in the footer,
+ * which the stock parquetjs footer encoder does not support. It also allows
+ * writing a valid file with zero rows.
+ */
+class TypedEnvelopeWriter extends ParquetEnvelopeWriter {
+  private readonly decimals: Map<string, { precision: number; scale: number }>;
+
+  constructor(
+    schema: ParquetSchema,
+    specs: ParquetColumnSpec[],
+    writeFn: (buf: Buffer) => Promise<void>,
+    closeFn: () => Promise<void>,
+    fileOffset: number,
+    opts: { useDataPageV2?: boolean }
+  ) {
+    super(schema, writeFn, closeFn, fileOffset, opts);
+    this.decimals = new Map();
+    for (const spec of specs) {
+      if (spec.decimal) {
+        this.decimals.set(spec.target, spec.decimal);
       }
+    }
+  }
 
-      // Stream the file to client
-      const fileStream = fs.createReadStream(tempFile);
-      fileStream.pipe(passThrough);
-      
-      fileStream.on('end', () => {
-        // Clean up temp file
-        fs.rm(tempDir, { recursive: true, force: true }, () => {});
-      });
-
-      fileStream.on('error', (error) => {
-        passThrough.destroy(error);
-        fs.rm(tempDir, { recursive: true, force: true }, () => {});
-      });
-
-    } catch (error) {
-      passThrough.destroy(error as Error);
-      fs.rm(tempDir, { recursive: true, force: true }, () => {});
+  writeFooter(userMetadata: Record<string, string> = {}): Promise<void> {
+    const metadata = new parquetThrift.FileMetaData();
+    metadata.version = 1;
+    metadata.created_by = 'polystream-data-export';
+    metadata.num_rows = this.rowCount;
+    metadata.row_groups = this.rowGroups;
+    metadata.schema = [];
+    metadata.key_value_metadata = [];
+
+    for (const [key, value] of Object.entries(userMetadata)) {
+      const kv = new parquetThrift.KeyValue();
+      kv.key = key;
+      kv.value = value;
+      metadata.key_value_metadata.push(kv);
     }
-  })();
 
-  return passThrough;
-}
+    const schemaRoot = new parquetThrift.SchemaElement();
+    schemaRoot.name = 'root';
+    schemaRoot.num_children = Object.keys(this.schema.fields).length;
+    metadata.schema.push(schemaRoot);
 
-function getParquetSchema(columns: ColumnMapping[]): Record<string, string> {
-  const schema: Record<string, string> = {};
-  for (const col of columns) {
-    schema[col.target] = 'STRING'; // Simplified: treat all as string for now
-  }
-  return schema;
-}
+    for (const field of this.schema.fieldList) {
+      const schemaElem = new parquetThrift.SchemaElement();
+      schemaElem.name = field.name;
+      schemaElem.repetition_type = parquetThrift.FieldRepetitionType[field.repetitionType];
+
+      if (field.isNested) {
+        schemaElem.num_children = field.fieldCount;
+      } else {
+        schemaElem.type = parquetThrift.Type[field.primitiveType as string];
+      }
 
-async function writeBatch(filePath: string, batch: any[][], schema: Record<string, string>): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const stream = fs.createWriteStream(filePath, { flags: 'a' });
-    
-    stream.on('finish', resolve);
-    stream.on('error', reject);
-
-    // Write batch data in a simplified format
-    for (const row of batch) {
-      const rowData = JSON.stringify(row) + '\n';
-      stream.write(rowData);
+      const decimal = this.decimals.get(field.name);
+      if (decimal) {
+        schemaElem.converted_type = parquetThrift.ConvertedType.DECIMAL;
+        schemaElem.precision = decimal.precision;
+        schemaElem.scale = decimal.scale;
+      } else if (field.originalType) {
+        schemaElem.converted_type = parquetThrift.ConvertedType[field.originalType];
+      }
+
+      schemaElem.type_length = field.typeLength;
+      metadata.schema.push(schemaElem);
     }
 
-    stream.end();
-  });
+    const metadataEncoded = serializeThrift(metadata);
+    const footer = Buffer.alloc(metadataEncoded.length + 8);
+    metadataEncoded.copy(footer);
+    footer.writeUInt32LE(metadataEncoded.length, metadataEncoded.length);
+    footer.write(PARQUET_MAGIC, metadataEncoded.length + 4);
+    return this.writeSection(footer);
+  }
 }
@@ -0,0 +1,360 @@
+import { PassThrough, Readable, Transform, TransformCallback, pipeline } from 'stream';
+import { once } from 'events';
+import { queryStream } from '../database';
+import { buildSelectQuery, SelectQuery } from '../query';
+import { FilterNode, SplitOptions, StreamExporterOptions } from '../types';
+import { selectColumns, SelectOptions } from '../utils';
+import { buildPartitionQuery, openPartitionPlan, PartitionedRowSource } from './parallel';
+
+export type ChunkSink = (chunk: string | Buffer) => void;
+
+/**
+ * A format plug-in for the export pipeline. Rows arrive in database batches with
+ * column mappings already applied; serialized output is handed to the sink.
+ */
+export interface RowSerializer {
+  // Rows fetched per cursor FETCH; defaults to the queryStream batch size
+  batchSize?: number;
+  // How column mappings are applied to each row before writeRows
+  select?: SelectOptions;
+  // rows is the first batch the serializer is given, or empty if it is given none
+  begin?(sink: ChunkSink, rows: Array<Record<string, any>>): void | Promise<void>;
+  writeRows(rows: Array<Record<string, any>>, sink: ChunkSink): void | Promise<void>;
+  end?(sink: ChunkSink): void | Promise<void>;
+}
+
+/**
+ * Reads batches from a database cursor on demand. A new FETCH is only issued when
+ * the consumer asks for more, so a slow client pauses the cursor instead of
+ * buffering the result in memory.
+ */
+class RowSource extends Readable {
+  private rows?: AsyncIterator<any[]>;
+  private reading: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly query: SelectQuery,
+    private readonly batchSize?: number,
+    private readonly signal?: AbortSignal,
+    private readonly snapshotId?: string
+  ) {
+    super({ objectMode: true, highWaterMark: 1 });
+  }
+
+  _read(): void {
+    this.reading = this.fetchBatch();
+  }
+
+  private async fetchBatch(): Promise<void> {
+    try {
+      if (!this.rows) {
+        const cursor = await queryStream(
+          this.query.text,
+          this.query.params,
+          this.batchSize,
+          this.signal,
+          this.snapshotId
+        );
+        this.rows = cursor[Symbol.asyncIterator]();
+      }
+      const result = await this.rows.next();
+      if (!this.destroyed) {
+        this.push(result.done ? null : result.value);
+      }
+    } catch (error) {
+      this.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    // Let an in-flight FETCH settle, then close the cursor and release its client
+    this.reading
+      .then(() => this.rows?.return?.())
+      .then(
+        () => callback(error),
+        closeError => callback(error ?? closeError)
+      );
+  }
+}
+
+// Applies column mappings and runs each batch through a serializer
+class SerializeTransform extends Transform {
+  private rowCount = 0;
+  private started = false;
+  private readonly sink: ChunkSink = chunk => {
+    this.push(chunk);
+  };
+
+  constructor(
+    private readonly serializer: RowSerializer,
+    private readonly options: StreamExporterOptions
+  ) {
+    super({ writableObjectMode: true, writableHighWaterMark: 1 });
+  }
+
+  _transform(batch: any[], encoding: BufferEncoding, callback: TransformCallback): void {
+    this.serializeBatch(batch).then(() => callback(), error => callback(error));
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.finish().then(() => callback(), error => callback(error));
+  }
+
+  private async begin(rows: Array<Record<string, any>>): Promise<void> {
+    if (!this.started) {
+      this.started = true;
+      await this.serializer.begin?.(this.sink, rows);
+    }
+  }
+
+  private async serializeBatch(batch: any[]): Promise<void> {
+    const rows = batch.map(row => selectColumns(row, this.options.columns, this.serializer.select));
+    await this.begin(rows);
+    await this.serializer.writeRows(rows, this.sink);
+    this.rowCount += rows.length;
+    this.options.onRows?.(this.rowCount);
+  }
+
+  private async finish(): Promise<void> {
+    // Empty results still get a header and footer
+    await this.begin([]);
+    await this.serializer.end?.(this.sink);
+    this.options.onComplete?.({ rowCount: this.rowCount });
+  }
+}
+
+/**
+ * Build the row source → serializer pipeline for an export. Backpressure flows from
+ * the returned stream back to the cursor, and destroying it (client disconnect,
+ * cancellation) closes the cursor.
+ */
+export function createRowStream(options: StreamExporterOptions, serializer: RowSerializer): Readable {
+  const source = createRowSource(options, serializer.batchSize);
+  const serialize = new SerializeTransform(serializer, options);
+
+  // Errors and destruction propagate in both directions; consumers observe them on the serializer
+  pipeline(source, serialize, () => {});
+  return serialize;
+}
+
+// Batches of the export's rows in order, from one cursor or from the partitions of a parallel export
+function createRowSource(options: StreamExporterOptions, batchSize?: number): Readable {
+  return options.parallel
+    ? new PartitionedRowSource(options, batchSize)
+    : new RowSource(buildSelectQuery(options), batchSize, options.signal);
+}
+
+// Returns an error message for invalid split options, or null if they are valid
+export function validateSplitOptions(split: any): string | null {
+  if (!split || typeof split !== 'object' || Array.isArray(split)) {
+    return 'split must be an object';
+  }
+  if (split.maxRows === undefined && split.maxBytes === undefined) {
+    return 'split requires maxRows or maxBytes';
+  }
+  for (const key of ['maxRows', 'maxBytes']) {
+    if (split[key] !== undefined && (!Number.isInteger(split[key]) || split[key] < 1)) {
+      return `split ${key} must be a positive integer`;
+    }
+  }
+  return null;
+}
+
+// Row range of one part written by writeSplitParts
+export interface PartRange {
+  rowOffset: number;
+  rowCount: number;
+}
+
+// One part of a split export, from its serializer's header to its footer
+class PartWriter {
+  readonly output = new PassThrough();
+  readonly stored: Promise<void>;
+  rowCount = 0;
+  byteCount = 0;
+  private started = false;
+  private readonly sink: ChunkSink = chunk => {
+    this.byteCount += chunk.length;
+    this.output.write(chunk);
+  };
+
+  constructor(
+    readonly serializer: RowSerializer,
+    readonly rowOffset: number,
+    storePart: (output: Readable) => Promise<void>
+  ) {
+    this.stored = storePart(this.output);
+    // Failures are observed when the part is ended or abandoned
+    this.stored.catch(() => {});
+  }
+
+  // batch is the whole database batch rows were taken from, handed to the serializer's begin
+  async writeRows(rows: Array<Record<string, any>>, batch = rows): Promise<void> {
+    await this.begin(batch);
+    await this.serializer.writeRows(rows, this.sink);
+    this.rowCount += rows.length;
+    if (this.output.writableNeedDrain) {
+      // Settles early if storing the part fails or finishes unexpectedly
+      await Promise.race([once(this.output, 'drain'), this.stored]);
+    }
+  }
+
+  isFull(split: SplitOptions): boolean {
+    return (split.maxRows !== undefined && this.rowCount >= split.maxRows) ||
+      (split.maxBytes !== undefined && this.byteCount >= split.maxBytes);
+  }
+
+  async end(): Promise<void> {
+    await this.begin([]);
+    await this.serializer.end?.(this.sink);
+    this.output.end();
+    await this.stored;
+  }
+
+  async abandon(error: Error): Promise<void> {
+    this.output.destroy(error);
+    await this.stored.catch(() => {});
+  }
+
+  private async begin(rows: Array<Record<string, any>>): Promise<void> {
+    if (!this.started) {
+      this.started = true;
+      await this.serializer.begin?.(this.sink, rows);
+    }
+  }
+}
+
+/**
+ * Serialize an export as consecutive standalone parts. Every part gets a fresh
+ * serializer from createSerializer(part number), so each has its own header and
+ * footer. storePart consumes the output of one part and resolves once it is
+ * stored; parts are written in order.
+ */
+export async function writeSplitParts(
+  options: StreamExporterOptions,
+  createSerializer: (part: number) => RowSerializer | Promise<RowSerializer>,
+  split: SplitOptions,
+  storePart: (index: number, output: Readable) => Promise<void>
+): Promise<PartRange[]> {
+  const parts: PartRange[] = [];
+  let rowCount = 0;
+  let nextSerializer: RowSerializer | null = await createSerializer(1);
+  // Every part has the same format, so rows are mapped the same way for all of them
+  const select = nextSerializer.select;
+  const source = createRowSource(options, nextSerializer.batchSize);
+  let part: PartWriter | null = null;
+
+  const openPart = async (): Promise<PartWriter> => {
+    const index = parts.length + 1;
+    const serializer = nextSerializer ?? (await createSerializer(index));
+    nextSerializer = null;
+    return new PartWriter(serializer, rowCount, output => storePart(index, output));
+  };
+
+  const endPart = async (current: PartWriter): Promise<void> => {
+    await current.end();
+    part = null;
+    parts.push({ rowOffset: current.rowOffset, rowCount: current.rowCount });
+  };
+
+  try {
+    for await (const batch of source) {
+      const mapped = batch.map((row: any) => selectColumns(row, options.columns, select));
+      let offset = 0;
+      while (offset < mapped.length) {
+        const current: PartWriter = part ?? (part = await openPart());
+        const room = split.maxRows !== undefined ? split.maxRows - current.rowCount : mapped.length;
+        const rows = mapped.slice(offset, offset + room);
+        await current.writeRows(rows, mapped);
+        offset += rows.length;
+        rowCount += rows.length;
+        options.onRows?.(rowCount);
+        if (current.isFull(split)) {
+          await endPart(current);
+        }
+      }
+    }
+
+    // An empty result is still one valid, empty part
+    const last = part ?? (parts.length === 0 ? await openPart() : null);
+    if (last) {
+      await endPart(last);
+    }
+  } catch (error) {
+    source.destroy();
+    await (part as PartWriter | null)?.abandon(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+
+  options.onComplete?.({ rowCount });
+  return parts;
+}
+
+/**
+ * Serialize a parallel export as one standalone part per id range. Parts are read
+ * from the shared snapshot and written concurrently; storePart may be called for
+ * several parts at once.
+ */
+export async function writeParallelParts(
+  options: StreamExporterOptions,
+  createSerializer: (part: number) => RowSerializer | Promise<RowSerializer>,
+  storePart: (index: number, output: Readable) => Promise<void>
+): Promise<PartRange[]> {
+  const plan = await openPartitionPlan(options);
+  // An empty result is still one valid, empty part
+  const filters = plan.filters.length > 0 ? plan.filters : [null];
+  const rowCounts = filters.map(() => 0);
+  const totalRows = () => rowCounts.reduce((total, count) => total + count, 0);
+  const outputs: Readable[] = [];
+  let failed = false;
+  let failure: unknown;
+
+  const writePart = async (filter: FilterNode | null, i: number): Promise<void> => {
+    const serializer = await createSerializer(i + 1);
+    if (failed) {
+      throw new Error('Another part of the export failed');
+    }
+    const source = filter
+      ? new RowSource(buildPartitionQuery(options, filter), serializer.batchSize, options.signal, plan.snapshotId)
+      : Readable.from([]);
+    const serialize = new SerializeTransform(serializer, {
+      ...options,
+      onRows: rows => {
+        rowCounts[i] = rows;
+        options.onRows?.(totalRows());
+      },
+      onComplete: undefined,
+    });
+    outputs.push(serialize);
+    pipeline(source, serialize, () => {});
+    await storePart(i + 1, serialize);
+  };
+
+  try {
+    await Promise.all(
+      filters.map((filter, i) =>
+        writePart(filter, i).catch(error => {
+          // Stop the other partitions as soon as one fails, and report that first failure
+          if (!failed) {
+            failed = true;
+            failure = error;
+            outputs.forEach(output => output.destroy());
+          }
+        })
+      )
+    );
+    if (failed) {
+      throw failure;
+    }
+  } finally {
+    await plan.release();
+  }
+
+  options.onComplete?.({ rowCount: totalRows() });
+  let rowOffset = 0;
+  return rowCounts.map(rowCount => {
+    const range = { rowOffset, rowCount };
+    rowOffset += rowCount;
+    return range;
+  });
+}
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { StreamExporterOptions } from '../types';
+import { getComputedDataType, isNumericDataType } from '../transforms';
+import { flattenJsonValue, getLocalEpochDay, sanitizeXmlValue } from '../utils';
+import { ZipWriter } from '../zip';
+import { RowSerializer } from './pipeline';
+
+// Excel's hard limit per worksheet, including the header row
+const MAX_SHEET_ROWS = 1048576;
+// Longer cell text makes Excel report the workbook as corrupt
+const MAX_CELL_TEXT = 32767;
+
+// Cell style indexes into cellXfs in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_DATETIME = 2;
+const STYLE_DATE = 3;
+
+const MS_PER_DAY = 86400000;
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * Writes an Office Open XML workbook as a zip that is streamed entry by entry.
+ * Cells use inline strings rather than a shared string table, which would have
+ * to be held in memory until the end of the export.
+ */
+export async function createXlsxSerializer(options: StreamExporterOptions): Promise<RowSerializer> {
+  const { columns } = options;
+
+  // PostgreSQL returns NUMERIC and BIGINT as strings; write those columns as numbers
+  const columnTypes = options.dataset.columnTypes;
+  const dataTypes = columns.map(col => getComputedDataType(col, columnTypes[col.source]?.dataType));
+  const numericColumns = dataTypes.map(isNumericDataType);
+  const dateColumns = dataTypes.map(dataType => dataType === 'date');
+  const headerCells = columns.map(col => buildStringCell(col.target, STYLE_HEADER)).join('');
+
+  let zip: ZipWriter;
+  let sheetCount = 0;
+  let sheetRows = 0;
+
+  const startSheet = async () => {
+    sheetCount++;
+    zip.startEntry(`xl/worksheets/sheet${sheetCount}.xml`);
+    await zip.write(
+      `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>` +
+      `<row r="1">${headerCells}</row>`
+    );
+    sheetRows = 1;
+  };
+
+  const endSheet = async () => {
+    await zip.write('</sheetData></worksheet>');
+    await zip.endEntry();
+  };
+
+  return {
+    async begin(sink) {
+      zip = new ZipWriter(sink);
+      await startSheet();
+    },
+    async writeRows(rows) {
+      let chunk = '';
+      for (const row of rows) {
+        // Roll over to a new worksheet once the current one is full
+        if (sheetRows === MAX_SHEET_ROWS) {
+          await zip.write(chunk);
+          chunk = '';
+          await endSheet();
+          await startSheet();
+        }
+        sheetRows++;
+
+        let cells = '';
+        columns.forEach((col, index) => {
+          cells += buildCell(row[col.target], numericColumns[index], dateColumns[index]);
+        });
+        chunk += `<row r="${sheetRows}">${cells}</row>`;
+      }
+      await zip.write(chunk);
+    },
+    async end() {
+      await endSheet();
+      // Workbook parts list every sheet, so they are written last
+      await zip.addEntry('[Content_Types].xml', buildContentTypes(sheetCount));
+      await zip.addEntry('_rels/.rels', buildPackageRels());
+      await zip.addEntry('xl/workbook.xml', buildWorkbook(sheetCount));
+      await zip.addEntry('xl/_rels/workbook.xml.rels', buildWorkbookRels(sheetCount));
+      await zip.addEntry('xl/styles.xml', buildStyles());
+      zip.finish();
+    },
+  };
+}
+
+function buildCell(value: any, numeric: boolean, date: boolean): string {
+  if (value === null || value === undefined) {
+    return '<c/>';
+  }
+  // pg parses DATE as local midnight, so the serial is taken from the local calendar day
+  if (date && value instanceof Date) {
+    const serial = getLocalEpochDay(value) + EXCEL_EPOCH_OFFSET;
+    return Number.isFinite(serial) ? `<c s="${STYLE_DATE}"><v>${serial}</v></c>` : '<c/>';
+  }
+  if (value instanceof Date) {
+    const serial = value.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET;
+    return Number.isFinite(serial) ? `<c s="${STYLE_DATETIME}"><v>${serial}</v></c>` : '<c/>';
+  }
+  if (typeof value === 'boolean') {
+    return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (typeof value === 'number' || (numeric && typeof value === 'string')) {
+    const num = Number(value);
+    if (Number.isFinite(num)) {
+      return `<c><v>${num}</v></c>`;
+    }
+  }
+  return buildStringCell(flattenJsonValue(value));
+}
+
+function buildStringCell(text: string, style?: number): string {
+  const styleAttr = style === undefined ? '' : ` s="${style}"`;
+  const safe = sanitizeXmlValue(stripInvalidXmlChars(text).slice(0, MAX_CELL_TEXT));
+  return `<c t="inlineStr"${styleAttr}><is><t xml:space="preserve">${safe}</t></is></c>`;
+}
+
+// Control characters other than tab, LF and CR are not allowed in XML 1.0
+function stripInvalidXmlChars(text: string): string {
+  return text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '');
+}
+
+function buildContentTypes(sheetCount: number): string {
+  let sheets = '';
+  for (let i = 1; i <= sheetCount; i++) {
+    sheets += `<Override PartName="/xl/worksheets/sheet${i}.xml" ` +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>';
+  }
+  return XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ' +
+    'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets +
+    '</Types>';
+}
+
+function buildPackageRels(): string {
+  return XML_DECLARATION +
+    `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+}
+
+function buildWorkbook(sheetCount: number): string {
+  let sheets = '';
+  for (let i = 1; i <= sheetCount; i++) {
+    sheets += `<sheet name="Sheet${i}" sheetId="${i}" r:id="rId${i}"/>`;
+  }
+  return XML_DECLARATION +
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>${sheets}</sheets></workbook>`;
+}
+
+function buildWorkbookRels(sheetCount: number): string {
+  let rels = '';
+  for (let i = 1; i <= sheetCount; i++) {
+    rels += `<Relationship Id="rId${i}" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet${i}.xml"/>`;
+  }
+  rels += `<Relationship Id="rId${sheetCount + 1}" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>`;
+  return XML_DECLARATION + `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">${rels}</Relationships>`;
+}
+
+// Styles: 0 = default, 1 = bold header, 2 = date-time, 3 = date
+function buildStyles(): string {
+  return XML_DECLARATION +
+    `<styleSheet xmlns="${SPREADSHEET_NS}">` +
+    '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/>' +
+    '<numFmt numFmtId="165" formatCode="yyyy-mm-dd"/></numFmts>' +
+    '<fonts count="2">' +
+    '<font><sz val="11"/><name val="Calibri"/></font>' +
+    '<font><b/><sz val="11"/><name val="Calibri"/></font>' +
+    '</fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="4">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+}
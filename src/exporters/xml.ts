@@ -1,108 +1,303 @@
-import { Readable, PassThrough } from 'stream';
-import { queryStream } from '../database';
-import { StreamExporterOptions } from '../types';
-import { selectColumns, sanitizeXmlValue, sanitizeXmlTag } from '../utils';
-
-export async function createXmlStream(options: StreamExporterOptions): Promise<Readable> {
-  const passThrough = new PassThrough();
-  const { columns } = options;
-  const rowLimit = Math.max(
-    0,
-    Math.floor(Number(options.rowLimit ?? process.env.EXPORT_ROW_LIMIT ?? 0))
-  );
-  const limitClause = rowLimit > 0 ? ` LIMIT ${rowLimit}` : '';
-
-  // Write XML declaration
-  passThrough.write('<?xml version="1.0" encoding="UTF-8"?>\n');
-  passThrough.write('<records>\n');
-
-  let rowCount = 0;
-
-  (async () => {
-    try {
-      const iterator = await queryStream(
-        `SELECT ${columns.map(c => c.source).join(', ')} FROM records${limitClause}`
-      );
-
-      for await (const batch of iterator as any) {
-        for (const row of batch) {
-          const selectedRow = selectColumns(row, columns);
-          
-          // Write opening record tag
-          passThrough.write('  <record>\n');
-          
-          // Write each field
-          for (const [key, value] of Object.entries(selectedRow)) {
-            const tagName = sanitizeXmlTag(key);
-            const tagValue = sanitizeXmlValue(formatXmlValue(value));
-            
-            if (typeof value === 'object' && value !== null) {
-              // Handle nested objects as nested XML
-              passThrough.write(`    <${tagName}>\n`);
-              writeXmlObject(passThrough, value, 6);
-              passThrough.write(`    </${tagName}>\n`);
-            } else {
-              passThrough.write(`    <${tagName}>${tagValue}</${tagName}>\n`);
+import { ColumnTypeInfo } from '../database';
+import { ColumnMapping, StreamExporterOptions, XmlOptions } from '../types';
+import { getComputedDataType, isComputedColumn } from '../transforms';
+import { formatLocalDate, sanitizeXmlValue, sanitizeXmlTag } from '../utils';
+import { RowSerializer } from './pipeline';
+
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+const XML_NAME = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+export type XmlLayout = Required<Pick<XmlOptions, 'rootElement' | 'rowElement' | 'attributes' | 'nil'>> &
+  Pick<XmlOptions, 'itemElement' | 'namespace' | 'prefix'>;
+
+// How one exported column is laid out in each row element
+interface XmlColumn {
+  target: string;
+  name: string;
+  asAttribute: boolean;
+  // JSON values are written as nested elements
+  structured: boolean;
+  dataType: string;
+  nullable: boolean;
+}
+
+export function resolveXmlLayout(options: XmlOptions = {}): XmlLayout {
+  return {
+    rootElement: options.rootElement ?? 'records',
+    rowElement: options.rowElement ?? 'record',
+    itemElement: options.itemElement,
+    attributes: options.attributes ?? false,
+    namespace: options.namespace,
+    prefix: options.prefix,
+    nil: options.nil ?? false,
+  };
+}
+
+// Returns an error message for invalid xmlOptions, or null if they are valid
+export function validateXmlOptions(options: any): string | null {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return 'xmlOptions must be an object';
+  }
+  for (const key of ['rootElement', 'rowElement', 'itemElement', 'prefix']) {
+    const name = options[key];
+    if (name !== undefined && (typeof name !== 'string' || !XML_NAME.test(name) || /^xml/i.test(name))) {
+      return `XML ${key} must be a valid element name without a colon, not starting with "xml"`;
+    }
+  }
+  if (options.namespace !== undefined && (typeof options.namespace !== 'string' || options.namespace.length === 0)) {
+    return 'XML namespace must be a non-empty URI';
+  }
+  if (options.prefix !== undefined && options.namespace === undefined) {
+    return 'XML prefix requires a namespace';
+  }
+  for (const flag of ['attributes', 'nil']) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+      return `XML ${flag} must be a boolean`;
+    }
+  }
+  return null;
+}
+
+// Targets are sanitized into XML names, so distinct targets can still collide as elements or attributes
+export function validateXmlColumns(columns: ColumnMapping[]): string | null {
+  const targets = new Map<string, string>();
+  for (const col of columns) {
+    const name = sanitizeXmlTag(col.target);
+    const other = targets.get(name);
+    if (other !== undefined) {
+      return `Columns "${other}" and "${col.target}" are both written as XML name "${name}"; choose distinct targets`;
+    }
+    targets.set(name, col.target);
+  }
+  return null;
+}
+
+export async function createXmlSerializer(options: StreamExporterOptions): Promise<RowSerializer> {
+  const layout = resolveXmlLayout(options.xmlOptions);
+  const columns = planColumns(options.columns, options.dataset.columnTypes, layout);
+  const qualify = (name: string) => (layout.prefix ? `${layout.prefix}:${name}` : name);
+  const rowTag = qualify(layout.rowElement);
+
+  return {
+    begin(sink) {
+      // Write XML declaration
+      sink('<?xml version="1.0" encoding="UTF-8"?>\n');
+      sink(`<${qualify(layout.rootElement)}${getNamespaceDeclarations(layout)}>\n`);
+    },
+    writeRows(rows, sink) {
+      const parts: string[] = [];
+      for (const row of rows) {
+        let openTag = `  <${rowTag}`;
+        const elements: string[] = [];
+
+        // Write each field
+        for (const column of columns) {
+          const value = row[column.target];
+          const tagName = qualify(column.name);
+
+          if (column.asAttribute) {
+            // NULL attributes are omitted
+            if (value !== null && value !== undefined) {
+              openTag += ` ${column.name}="${sanitizeXmlValue(formatXmlValue(value, column.dataType))}"`;
             }
+          } else if ((value === null || value === undefined) && layout.nil) {
+            elements.push(`    <${tagName} xsi:nil="true"/>\n`);
+          } else if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+            // Handle nested objects as nested XML
+            elements.push(`    <${tagName}>\n`);
+            writeXmlObject(elements, value, 6, layout);
+            elements.push(`    </${tagName}>\n`);
+          } else {
+            const tagValue = sanitizeXmlValue(formatXmlValue(value, column.dataType));
+            elements.push(`    <${tagName}>${tagValue}</${tagName}>\n`);
           }
-          
-          // Write closing record tag
-          passThrough.write('  </record>\n');
-          rowCount++;
-
-          // Yield to event loop periodically
-          if (rowCount % 10000 === 0) {
-            await new Promise(resolve => setImmediate(resolve));
-          }
+        }
+
+        if (elements.length === 0) {
+          parts.push(`${openTag}/>\n`);
+        } else {
+          parts.push(`${openTag}>\n`, ...elements, `  </${rowTag}>\n`);
         }
       }
+      sink(parts.join(''));
+    },
+    end(sink) {
+      sink(`</${qualify(layout.rootElement)}>`);
+    },
+  };
+}
 
-      passThrough.write('</records>');
-      passThrough.end();
-    } catch (error) {
-      passThrough.destroy(error as Error);
-    }
-  })();
+function planColumns(
+  columns: ColumnMapping[],
+  columnTypes: Record<string, ColumnTypeInfo>,
+  layout: XmlLayout
+): XmlColumn[] {
+  return columns.map(col => {
+    const typeInfo = columnTypes[col.source];
+    const dataType = getComputedDataType(col, typeInfo?.dataType);
+    // A path without type-changing transforms may point at an object or array
+    const structured = ['json', 'jsonb'].includes(dataType) ||
+      (!!col.path && (col.transforms ?? []).every(t => t.type === 'coalesce'));
+    return {
+      target: col.target,
+      name: sanitizeXmlTag(col.target),
+      asAttribute: layout.attributes && !structured,
+      structured,
+      dataType,
+      nullable: isComputedColumn(col) || !typeInfo || typeInfo.isNullable,
+    };
+  });
+}
 
-  return passThrough;
+function getNamespaceDeclarations(layout: XmlLayout): string {
+  let declarations = '';
+  if (layout.namespace) {
+    const attr = layout.prefix ? `xmlns:${layout.prefix}` : 'xmlns';
+    declarations += ` ${attr}="${sanitizeXmlValue(layout.namespace)}"`;
+  }
+  if (layout.nil) {
+    declarations += ` xmlns:xsi="${XSI_NS}"`;
+  }
+  return declarations;
 }
 
-function formatXmlValue(value: any): string {
+function formatXmlValue(value: any, dataType?: string): string {
   if (value === null || value === undefined) {
     return '';
   }
   if (typeof value === 'boolean') {
     return value ? 'true' : 'false';
   }
+  if (value instanceof Date) {
+    // pg parses DATE as local midnight; xs:date has no time part
+    return dataType === 'date' ? formatLocalDate(value) : value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
   return String(value);
 }
 
-function writeXmlObject(stream: PassThrough, obj: any, indent: number): void {
+function writeXmlObject(parts: string[], obj: any, indent: number, layout: XmlLayout): void {
   const indentStr = ' '.repeat(indent);
-  
+  const qualify = (name: string) => (layout.prefix ? `${layout.prefix}:${name}` : name);
+
   if (Array.isArray(obj)) {
     obj.forEach((item, index) => {
-      const tag = sanitizeXmlTag(`item_${index}`);
+      const tag = qualify(layout.itemElement ?? sanitizeXmlTag(`item_${index}`));
       if (typeof item === 'object' && item !== null) {
-        stream.write(`${indentStr}<${tag}>\n`);
-        writeXmlObject(stream, item, indent + 2);
-        stream.write(`${indentStr}</${tag}>\n`);
+        parts.push(`${indentStr}<${tag}>\n`);
+        writeXmlObject(parts, item, indent + 2, layout);
+        parts.push(`${indentStr}</${tag}>\n`);
       } else {
         const value = sanitizeXmlValue(formatXmlValue(item));
-        stream.write(`${indentStr}<${tag}>${value}</${tag}>\n`);
+        parts.push(`${indentStr}<${tag}>${value}</${tag}>\n`);
       }
     });
   } else if (typeof obj === 'object') {
     for (const [key, value] of Object.entries(obj)) {
-      const tag = sanitizeXmlTag(key);
+      const tag = qualify(sanitizeXmlTag(key));
       if (typeof value === 'object' && value !== null) {
-        stream.write(`${indentStr}<${tag}>\n`);
-        writeXmlObject(stream, value, indent + 2);
-        stream.write(`${indentStr}</${tag}>\n`);
+        parts.push(`${indentStr}<${tag}>\n`);
+        writeXmlObject(parts, value, indent + 2, layout);
+        parts.push(`${indentStr}</${tag}>\n`);
       } else {
         const formatted = sanitizeXmlValue(formatXmlValue(value));
-        stream.write(`${indentStr}<${tag}>${formatted}</${tag}>\n`);
+        parts.push(`${indentStr}<${tag}>${formatted}</${tag}>\n`);
       }
     }
   }
 }
+
+// XML Schema built-in type for a PostgreSQL data type
+function getXsdType(dataType: string): string {
+  switch (dataType) {
+    case 'bigint':
+      return 'xs:long';
+    case 'integer':
+      return 'xs:int';
+    case 'smallint':
+      return 'xs:short';
+    case 'numeric':
+      return 'xs:decimal';
+    case 'real':
+      return 'xs:float';
+    case 'double precision':
+      return 'xs:double';
+    case 'boolean':
+      return 'xs:boolean';
+    case 'date':
+      return 'xs:date';
+    case 'timestamp with time zone':
+    case 'timestamp without time zone':
+      return 'xs:dateTime';
+    default:
+      return 'xs:string';
+  }
+}
+
+/**
+ * Build an XSD describing the document createXmlSerializer writes for these options.
+ * JSON columns are open content, since their structure is not part of the table schema.
+ */
+export async function buildXmlSchema(
+  options: Pick<StreamExporterOptions, 'dataset' | 'columns' | 'xmlOptions'>
+): Promise<string> {
+  const layout = resolveXmlLayout(options.xmlOptions);
+  const columns = planColumns(options.columns, options.dataset.columnTypes, layout);
+
+  const elements = columns.filter(col => !col.asAttribute).map(col => {
+    const nillable = col.nullable && layout.nil ? ' nillable="true"' : '';
+    if (col.structured) {
+      return `              <xs:element name="${col.name}"${nillable}>\n` +
+        '                <xs:complexType mixed="true">\n' +
+        '                  <xs:sequence>\n' +
+        '                    <xs:any minOccurs="0" maxOccurs="unbounded" processContents="skip"/>\n' +
+        '                  </xs:sequence>\n' +
+        '                </xs:complexType>\n' +
+        '              </xs:element>\n';
+    }
+    const xsdType = getXsdType(col.dataType);
+    // Without xsi:nil, NULL is written as an empty element
+    if (col.nullable && !layout.nil && xsdType !== 'xs:string') {
+      return `              <xs:element name="${col.name}">\n` +
+        '                <xs:simpleType>\n' +
+        `                  <xs:union memberTypes="${xsdType}">\n` +
+        '                    <xs:simpleType>\n' +
+        '                      <xs:restriction base="xs:string"><xs:length value="0"/></xs:restriction>\n' +
+        '                    </xs:simpleType>\n' +
+        '                  </xs:union>\n' +
+        '                </xs:simpleType>\n' +
+        '              </xs:element>\n';
+    }
+    return `              <xs:element name="${col.name}" type="${xsdType}"${nillable}/>\n`;
+  });
+
+  const attributes = columns.filter(col => col.asAttribute).map(col =>
+    `            <xs:attribute name="${col.name}" type="${getXsdType(col.dataType)}" ` +
+    `use="${col.nullable ? 'optional' : 'required'}"/>\n`
+  );
+
+  const namespace = layout.namespace
+    ? ` targetNamespace="${sanitizeXmlValue(layout.namespace)}" ` +
+      `xmlns="${sanitizeXmlValue(layout.namespace)}" elementFormDefault="qualified"`
+    : '';
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"${namespace}>\n` +
+    `  <xs:element name="${layout.rootElement}">\n` +
+    '    <xs:complexType>\n' +
+    '      <xs:sequence>\n' +
+    `        <xs:element name="${layout.rowElement}" minOccurs="0" maxOccurs="unbounded">\n` +
+    '          <xs:complexType>\n' +
+    '            <xs:sequence>\n' +
+    elements.join('') +
+    '            </xs:sequence>\n' +
+    attributes.join('') +
+    '          </xs:complexType>\n' +
+    '        </xs:element>\n' +
+    '      </xs:sequence>\n' +
+    '    </xs:complexType>\n' +
+    '  </xs:element>\n' +
+    '</xs:schema>\n';
+}
@@ -1,6 +1,13 @@
 import express, { Request, Response } from 'express';
 import exportsRouter from './routes/exports';
+import definitionsRouter from './routes/definitions';
+import datasetsRouter from './routes/datasets';
 import { pool } from './database';
+import { listDatasets, loadDatasetSchema } from './datasets';
+import { jobStore } from './store';
+import { exportWorkerPool } from './worker';
+import { startCancellationWatcher } from './cancellation';
+import { authenticate, loadApiKeys } from './auth';
 
 const app = express();
 const PORT = process.env.PORT || 8080;
@@ -20,7 +27,9 @@ app.get('/health', (req: Request, res: Response) => {
 });
 
 // API Routes
-app.use('/exports', exportsRouter);
+app.use('/exports', authenticate, exportsRouter);
+app.use('/definitions', authenticate, definitionsRouter);
+app.use('/datasets', authenticate, datasetsRouter);
 
 // Root endpoint
 app.get('/', (req: Request, res: Response) => {
@@ -30,8 +39,25 @@ app.get('/', (req: Request, res: Response) => {
     endpoints: {
       health: 'GET /health',
       createExport: 'POST /exports',
+      listExports: 'GET /exports',
+      getExport: 'GET /exports/{exportId}',
+      cancelExport: 'DELETE /exports/{exportId}',
+      exportEvents: 'GET /exports/{exportId}/events',
+      xmlSchema: 'GET /exports/{exportId}/schema.xsd',
       downloadExport: 'GET /exports/{exportId}/download',
+      exportManifest: 'GET /exports/{exportId}/manifest',
+      downloadExportPart: 'GET /exports/{exportId}/parts/{part}',
       benchmark: 'GET /exports/benchmark',
+      createDefinition: 'POST /definitions',
+      listDefinitions: 'GET /definitions',
+      getDefinition: 'GET /definitions/{name}',
+      deleteDefinition: 'DELETE /definitions/{name}',
+      setDefinitionWatermark: 'PUT /definitions/{name}/watermark',
+      runDefinition: 'POST /definitions/{name}/runs',
+      createDataset: 'POST /datasets',
+      listDatasets: 'GET /datasets',
+      getDataset: 'GET /datasets/{name}',
+      deleteDataset: 'DELETE /datasets/{name}',
     },
   });
 });
@@ -50,25 +76,57 @@ app.use((err: any, req: Request, res: Response, next: any) => {
 // Initialize database connection on startup
 async function startServer() {
   try {
+    // Load API keys first, so a broken key file stops startup rather than leaving the API open
+    const keyCount = loadApiKeys();
+    if (keyCount === null) {
+      console.warn('⚠ API_KEYS_FILE is not set; authentication is disabled');
+    } else {
+      console.log(`✓ Loaded ${keyCount} API key(s)`);
+    }
+
     // Test database connection
     const client = await pool.connect();
     const result = await client.query('SELECT NOW()');
     console.log('✓ Database connected:', result.rows[0].now);
 
-    // Check if records table exists and has data
-    const countResult = await client.query('SELECT COUNT(*) FROM records');
-    const count = parseInt(countResult.rows[0].count, 10);
-    console.log(`✓ Records table has ${count} rows`);
     client.release();
 
+    // Prepare the export job store (creates export_jobs when backed by PostgreSQL)
+    await jobStore.initialize();
+    console.log(`✓ Job store ready (${process.env.JOB_STORE || 'memory'})`);
+
+    // Discover and cache each dataset's columns; an unavailable dataset only fails its own exports
+    for (const dataset of await listDatasets()) {
+      try {
+        const columns = await loadDatasetSchema(dataset);
+        console.log(`✓ Dataset ${dataset.name} (${dataset.kind}): ${Object.keys(columns).join(', ')}`);
+      } catch (error) {
+        console.warn(`⚠ Dataset ${dataset.name} is unavailable: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // Resume background exports that were still pending or whose worker died mid-run
+    await exportWorkerPool.start();
+    startCancellationWatcher();
+
     // Start server
     app.listen(PORT, () => {
       console.log(`\n✓ PolyStream Data Export Engine listening on port ${PORT}`);
       console.log(`\nAPI Documentation:`);
       console.log(`  • Health Check: http://localhost:${PORT}/health`);
       console.log(`  • Create Export: POST http://localhost:${PORT}/exports`);
+      console.log(`  • List Exports: GET http://localhost:${PORT}/exports`);
+      console.log(`  • Export Status: GET http://localhost:${PORT}/exports/{exportId}`);
+      console.log(`  • Cancel Export: DELETE http://localhost:${PORT}/exports/{exportId}`);
+      console.log(`  • Export Progress (SSE): GET http://localhost:${PORT}/exports/{exportId}/events`);
+      console.log(`  • XML Schema: GET http://localhost:${PORT}/exports/{exportId}/schema.xsd`);
       console.log(`  • Download Export: GET http://localhost:${PORT}/exports/{exportId}/download`);
-      console.log(`  • Benchmark: GET http://localhost:${PORT}/exports/benchmark\n`);
+      console.log(`  • Export Manifest: GET http://localhost:${PORT}/exports/{exportId}/manifest`);
+      console.log(`  • Download Export Part: GET http://localhost:${PORT}/exports/{exportId}/parts/{part}`);
+      console.log(`  • Benchmark: GET http://localhost:${PORT}/exports/benchmark`);
+      console.log(`  • Export Definitions: POST/GET http://localhost:${PORT}/definitions`);
+      console.log(`  • Run Export Definition: POST http://localhost:${PORT}/definitions/{name}/runs`);
+      console.log(`  • Datasets: POST/GET http://localhost:${PORT}/datasets\n`);
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -0,0 +1,73 @@
+// Minimal type declarations for the parts of parquetjs used by the Parquet exporter
+
+declare module 'parquetjs' {
+  export interface ParquetFieldOptions {
+    type?: string;
+    typeLength?: number;
+    optional?: boolean;
+    repeated?: boolean;
+    encoding?: string;
+    compression?: string;
+    fields?: Record<string, ParquetFieldOptions>;
+  }
+
+  export interface ParquetField {
+    name: string;
+    path: string[];
+    primitiveType?: string;
+    originalType?: string;
+    repetitionType: string;
+    typeLength?: number;
+    isNested?: boolean;
+    fieldCount?: number;
+  }
+
+  export class ParquetSchema {
+    constructor(schema: Record<string, ParquetFieldOptions>);
+    fields: Record<string, ParquetField>;
+    fieldList: ParquetField[];
+  }
+
+  export interface ParquetWriterOptions {
+    rowGroupSize?: number;
+    useDataPageV2?: boolean;
+  }
+
+  export class ParquetEnvelopeWriter {
+    constructor(
+      schema: ParquetSchema,
+      writeFn: (buf: Buffer) => Promise<void>,
+      closeFn: () => Promise<void>,
+      fileOffset: number,
+      opts: ParquetWriterOptions
+    );
+    schema: ParquetSchema;
+    rowCount: number;
+    rowGroups: any[];
+    writeSection(buf: Buffer): Promise<void>;
+    writeHeader(): Promise<void>;
+    writeFooter(userMetadata?: Record<string, string>): Promise<void>;
+    close(): Promise<void>;
+  }
+
+  export class ParquetWriter {
+    constructor(schema: ParquetSchema, envelopeWriter: ParquetEnvelopeWriter, opts: ParquetWriterOptions);
+    appendRow(row: Record<string, any>): Promise<void>;
+    close(): Promise<void>;
+    setMetadata(key: string, value: string): void;
+  }
+}
+
+declare module 'parquetjs/lib/util' {
+  export function serializeThrift(obj: any): Buffer;
+  export function decodeThrift(obj: any, buf: Buffer, offset?: number): number;
+}
+
+declare module 'parquetjs/gen-nodejs/parquet_types' {
+  export const FileMetaData: any;
+  export const SchemaElement: any;
+  export const KeyValue: any;
+  export const Type: Record<string, number>;
+  export const ConvertedType: Record<string, number>;
+  export const FieldRepetitionType: Record<string, number>;
+}
@@ -0,0 +1,112 @@
+import { ExportJob, ExportProgress, ExportProgressStats } from './types';
+import { jobStore } from './store';
+import { queryCount } from './database';
+import { buildCountQuery } from './query';
+import { resolveDataset } from './datasets';
+
+const DEFAULT_PROGRESS_INTERVAL_MS = 1000;
+
+export interface ProgressSnapshot extends ExportProgress {
+  percent?: number;
+  rowsPerSecond: number;
+  etaSeconds?: number;
+}
+
+/**
+ * Records rows written, bytes emitted and elapsed time of a running export on its job.
+ * Updates are throttled so a 10M-row export does not write to the store per batch.
+ */
+export class ExportProgressReporter {
+  private readonly startedAt = Date.now();
+  private readonly intervalMs: number;
+  private stats: ExportProgressStats = { rowCount: 0, byteCount: 0 };
+  private totalRows?: number;
+  private lastPersistedAt = 0;
+  private finished = false;
+  // Cancels the row count once the export is over, whichever way it ended
+  private readonly countController = new AbortController();
+  // Writes are chained so an older snapshot can never overwrite a newer one
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly job: ExportJob) {
+    this.intervalMs = Math.max(
+      100,
+      Number(process.env.EXPORT_PROGRESS_INTERVAL_MS || DEFAULT_PROGRESS_INTERVAL_MS)
+    );
+  }
+
+  // Count the expected rows in the background; progress is reported without a total until then.
+  // Aborting the export's signal cancels the count.
+  start(signal?: AbortSignal): void {
+    const countSignal = this.countController.signal;
+    signal?.addEventListener('abort', () => this.countController.abort(), { once: true });
+    resolveDataset(this.job.dataset, this.job.parameters)
+      .then(dataset => {
+        const countQuery = buildCountQuery({
+          dataset,
+          columns: this.job.columns,
+          filter: this.job.filter,
+        });
+        return queryCount(countQuery.text, countQuery.params, countSignal);
+      })
+      .then(total => {
+        this.totalRows = total;
+        this.persist();
+      })
+      .catch(error => {
+        if (!countSignal.aborted) {
+          console.error(`Error counting rows for export ${this.job.id}:`, error);
+        }
+      });
+    this.persist();
+  }
+
+  update(stats: ExportProgressStats): void {
+    this.stats = stats;
+    if (Date.now() - this.lastPersistedAt >= this.intervalMs) {
+      this.persist();
+    }
+  }
+
+  // Persist the final numbers; later updates are ignored
+  finish(): Promise<void> {
+    this.persist();
+    this.finished = true;
+    this.countController.abort();
+    return this.lastWrite;
+  }
+
+  private persist(): void {
+    if (this.finished) {
+      return;
+    }
+    this.lastPersistedAt = Date.now();
+    const progress: ExportProgress = {
+      rowsWritten: this.stats.rowCount,
+      bytesWritten: this.stats.byteCount,
+      elapsedMs: Date.now() - this.startedAt,
+      totalRows: this.totalRows,
+      updatedAt: new Date(),
+    };
+    this.lastWrite = this.lastWrite
+      .then(() => jobStore.setJobProgress(this.job.id, progress))
+      .catch(error => console.error(`Error saving progress of export ${this.job.id}:`, error));
+  }
+}
+
+// Derive percent, throughput and ETA from a persisted progress record
+export function getProgressSnapshot(progress: ExportProgress): ProgressSnapshot {
+  const seconds = progress.elapsedMs / 1000;
+  const rowsPerSecond = seconds > 0 ? Math.round(progress.rowsWritten / seconds) : 0;
+  const snapshot: ProgressSnapshot = { ...progress, rowsPerSecond };
+
+  if (progress.totalRows !== undefined) {
+    snapshot.percent = progress.totalRows > 0
+      ? Math.min(100, Math.round((progress.rowsWritten / progress.totalRows) * 1000) / 10)
+      : 100;
+    if (rowsPerSecond > 0) {
+      snapshot.etaSeconds = Math.max(0, Math.round((progress.totalRows - progress.rowsWritten) / rowsPerSecond));
+    }
+  }
+  return snapshot;
+}
@@ -0,0 +1,378 @@
+import {
+  DatasetSource,
+  FilterNode,
+  FilterPredicate,
+  FilterGroup,
+  FilterOperator,
+  OrderByClause,
+  StreamExporterOptions,
+} from './types';
+import { ColumnTypeInfo } from './database';
+import { quoteIdentifier } from './utils';
+
+export interface SelectQuery {
+  text: string;
+  params: any[];
+}
+
+const FILTER_OPERATORS: FilterOperator[] = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'in',
+  'like',
+  'ilike',
+  'is_null',
+  'is_not_null',
+  'contains',
+];
+
+const COMPARISON_SQL: Partial<Record<FilterOperator, string>> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+  ilike: 'ILIKE',
+};
+
+const MAX_FILTER_DEPTH = 8;
+const MAX_FILTER_PREDICATES = 100;
+const MAX_ORDER_BY = 10;
+
+function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return 'and' in node || 'or' in node;
+}
+
+// Names that are not real columns of the dataset
+export function findUnknownColumns(names: string[], validColumns: string[]): string[] {
+  return Array.from(new Set(names.filter(name => !validColumns.includes(name))));
+}
+
+// Fields referenced by a filter or orderBy, used to validate them against the dataset's columns
+export function getReferencedFields(filter?: FilterNode, orderBy?: OrderByClause[]): string[] {
+  const fields = new Set<string>();
+  const visit = (node: FilterNode) => {
+    if (isFilterGroup(node)) {
+      (node.and ?? node.or ?? []).forEach(visit);
+    } else {
+      fields.add(node.field);
+    }
+  };
+  if (filter) visit(filter);
+  for (const clause of orderBy ?? []) {
+    fields.add(clause.field);
+  }
+  return Array.from(fields);
+}
+
+// Paths and containment need JSON columns; returns an error for the first predicate that lacks one
+export function validateFilterColumnTypes(
+  filter: FilterNode | undefined,
+  columnTypes: Record<string, ColumnTypeInfo>
+): string | null {
+  if (!filter) {
+    return null;
+  }
+  if (isFilterGroup(filter)) {
+    for (const child of filter.and ?? filter.or ?? []) {
+      const error = validateFilterColumnTypes(child, columnTypes);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  const dataType = columnTypes[filter.field]?.dataType;
+  // @> exists only for jsonb, also after #> on a json column
+  if (filter.operator === 'contains' && dataType !== 'jsonb') {
+    return `Filter "contains" on "${filter.field}" requires a jsonb column`;
+  }
+  if (filter.path !== undefined && !['json', 'jsonb'].includes(dataType)) {
+    return `Filter field "${filter.field}" is not a JSON column and cannot be used with a path`;
+  }
+  return null;
+}
+
+// Returns an error message describing the first problem found, or null if the filter is valid
+export function validateFilter(filter: any): string | null {
+  let predicateCount = 0;
+
+  const visit = (node: any, depth: number): string | null => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      return 'Filter nodes must be objects';
+    }
+    if (depth > MAX_FILTER_DEPTH) {
+      return `Filter nesting exceeds maximum depth of ${MAX_FILTER_DEPTH}`;
+    }
+
+    if ('and' in node || 'or' in node) {
+      if ('and' in node && 'or' in node) {
+        return 'A filter group must contain either "and" or "or", not both';
+      }
+      const children = node.and ?? node.or;
+      if (!Array.isArray(children) || children.length === 0) {
+        return 'Filter "and"/"or" must be a non-empty array';
+      }
+      for (const child of children) {
+        const error = visit(child, depth + 1);
+        if (error) return error;
+      }
+      return null;
+    }
+
+    predicateCount++;
+    if (predicateCount > MAX_FILTER_PREDICATES) {
+      return `Filter exceeds maximum of ${MAX_FILTER_PREDICATES} predicates`;
+    }
+    return validatePredicate(node);
+  };
+
+  return visit(filter, 1);
+}
+
+function validatePredicate(predicate: any): string | null {
+  const { field, path, operator, value } = predicate;
+
+  if (typeof field !== 'string' || field.length === 0) {
+    return `Invalid filter field: ${JSON.stringify(field)}`;
+  }
+  if (path !== undefined) {
+    if (!Array.isArray(path) || path.length === 0 || !path.every(p => typeof p === 'string' && p.length > 0)) {
+      return `Filter path for "${field}" must be a non-empty array of strings`;
+    }
+  }
+  if (!FILTER_OPERATORS.includes(operator)) {
+    return `Invalid filter operator for "${field}". Must be one of: ${FILTER_OPERATORS.join(', ')}`;
+  }
+
+  switch (operator) {
+    case 'is_null':
+    case 'is_not_null':
+      return null;
+    case 'between':
+      if (!Array.isArray(value) || value.length !== 2 || value.some(isMissingScalar)) {
+        return `Filter "between" on "${field}" requires a [low, high] value`;
+      }
+      return null;
+    case 'in':
+      if (!Array.isArray(value) || value.length === 0 || value.some(isMissingScalar)) {
+        return `Filter "in" on "${field}" requires a non-empty array of values`;
+      }
+      return null;
+    case 'like':
+    case 'ilike':
+      if (typeof value !== 'string') {
+        return `Filter "${operator}" on "${field}" requires a string pattern`;
+      }
+      return null;
+    case 'contains':
+      if (value === undefined || value === null || typeof value !== 'object') {
+        return `Filter "contains" on "${field}" requires an object or array value`;
+      }
+      return null;
+    default:
+      if (isMissingScalar(value)) {
+        return `Filter "${operator}" on "${field}" requires a string, number or boolean value`;
+      }
+      return null;
+  }
+}
+
+function isMissingScalar(value: any): boolean {
+  return !['string', 'number', 'boolean'].includes(typeof value);
+}
+
+export function validateOrderBy(orderBy: any): string | null {
+  if (!Array.isArray(orderBy)) {
+    return 'orderBy must be an array';
+  }
+  if (orderBy.length > MAX_ORDER_BY) {
+    return `orderBy exceeds maximum of ${MAX_ORDER_BY} entries`;
+  }
+  for (const clause of orderBy) {
+    if (!clause || typeof clause.field !== 'string' || clause.field.length === 0) {
+      return `Invalid orderBy field: ${JSON.stringify(clause?.field)}`;
+    }
+    if (clause.direction !== undefined && !['asc', 'desc'].includes(clause.direction)) {
+      return `Invalid orderBy direction for "${clause.field}". Must be asc or desc`;
+    }
+    if (clause.nulls !== undefined && !['first', 'last'].includes(clause.nulls)) {
+      return `Invalid orderBy nulls for "${clause.field}". Must be first or last`;
+    }
+  }
+  return null;
+}
+
+// Adds a value to a query and returns the SQL that refers to it
+type BindValue = (value: any) => string;
+
+// Compile a filter tree into a parameterized SQL condition, appending values to params
+export function buildWhereClause(filter: FilterNode, params: any[]): string {
+  return compileFilter(filter, value => {
+    params.push(value);
+    return `$${params.length}`;
+  });
+}
+
+function compileFilter(filter: FilterNode, addParam: BindValue): string {
+  if (isFilterGroup(filter)) {
+    const joiner = filter.and ? ' AND ' : ' OR ';
+    const children = (filter.and ?? filter.or ?? []).map(child => compileFilter(child, addParam));
+    return `(${children.join(joiner)})`;
+  }
+  return buildPredicate(filter, addParam);
+}
+
+function buildPredicate(predicate: FilterPredicate, addParam: BindValue): string {
+  const { operator, value } = predicate;
+
+  const field = quoteIdentifier(predicate.field);
+
+  // JSONB containment operates on the raw jsonb value, not its text extraction
+  if (operator === 'contains') {
+    const target = predicate.path
+      ? `${field} #> ${addParam(predicate.path)}::text[]`
+      : field;
+    return `${target} @> ${addParam(JSON.stringify(value))}::jsonb`;
+  }
+
+  const sample = Array.isArray(value) ? value[0] : value;
+  const column = predicate.path
+    ? `(${field} #>> ${addParam(predicate.path)}::text[])${getJsonPathCast(sample)}`
+    : field;
+
+  switch (operator) {
+    case 'is_null':
+      return `${column} IS NULL`;
+    case 'is_not_null':
+      return `${column} IS NOT NULL`;
+    case 'between':
+      return `${column} BETWEEN ${addParam(value[0])} AND ${addParam(value[1])}`;
+    case 'in':
+      return `${column} = ANY(${addParam(value)})`;
+    default:
+      return `${column} ${COMPARISON_SQL[operator]} ${addParam(value)}`;
+  }
+}
+
+// Text extracted from a JSONB path is cast to match the comparison value's type
+function getJsonPathCast(sample: any): string {
+  if (typeof sample === 'number') return '::numeric';
+  if (typeof sample === 'boolean') return '::boolean';
+  return '';
+}
+
+export function buildOrderByClause(orderBy: OrderByClause[]): string {
+  return orderBy
+    .map(clause => {
+      let sql = `${quoteIdentifier(clause.field)} ${clause.direction === 'desc' ? 'DESC' : 'ASC'}`;
+      if (clause.nulls) {
+        sql += ` NULLS ${clause.nulls === 'first' ? 'FIRST' : 'LAST'}`;
+      }
+      return sql;
+    })
+    .join(', ');
+}
+
+export function getRowLimit(options: StreamExporterOptions): number {
+  return Math.max(
+    0,
+    Math.floor(Number(options.rowLimit ?? process.env.EXPORT_ROW_LIMIT ?? 0))
+  );
+}
+
+// Build the SELECT for an export, applying filter, ordering and the row limit
+export function buildSelectQuery(options: StreamExporterOptions): SelectQuery {
+  const params: any[] = [...options.dataset.params];
+
+  // Several mappings may read from the same source column (e.g. different JSONB paths)
+  const sources = Array.from(new Set(options.columns.map(c => c.source)));
+
+  const text = buildSelect(options, sources.map(quoteIdentifier), value => {
+    params.push(value);
+    return `$${params.length}`;
+  });
+  return { text, params };
+}
+
+/**
+ * The export's SELECT with the given select list, for COPY, which takes no bind
+ * parameters. Filter values are never inlined, so only exports without a filter or
+ * dataset parameters qualify.
+ */
+export function buildUnboundSelectQuery(options: StreamExporterOptions, selectList: string[]): string {
+  if (options.dataset.params.length > 0) {
+    throw new Error(`Dataset ${options.dataset.name} has parameters, which COPY cannot bind`);
+  }
+  return buildSelect(options, selectList, () => {
+    throw new Error('Filter values are always bound, so exports with a filter cannot use COPY');
+  });
+}
+
+function buildSelect(options: StreamExporterOptions, selectList: string[], addParam: BindValue): string {
+  const { dataset, filter, orderBy } = options;
+  const rowLimit = getRowLimit(options);
+
+  let text = `SELECT ${selectList.join(', ')} FROM ${dataset.from}`;
+  if (filter) {
+    text += ` WHERE ${compileFilter(filter, addParam)}`;
+  }
+  if (orderBy && orderBy.length > 0) {
+    text += ` ORDER BY ${buildOrderByClause(orderBy)}`;
+  }
+  if (rowLimit > 0) {
+    text += ` LIMIT ${rowLimit}`;
+  }
+  return text;
+}
+
+// Count the rows an export will produce, honoring its filter and row limit
+export function buildCountQuery(options: StreamExporterOptions): SelectQuery {
+  const params: any[] = [...options.dataset.params];
+  const rowLimit = getRowLimit(options);
+
+  let rows = `SELECT 1 FROM ${options.dataset.from}`;
+  if (options.filter) {
+    rows += ` WHERE ${buildWhereClause(options.filter, params)}`;
+  }
+  if (rowLimit > 0) {
+    rows += ` LIMIT ${rowLimit}`;
+  }
+
+  return { text: `SELECT COUNT(*) AS count FROM (${rows}) AS export_rows`, params };
+}
+
+// Highest value of a watermark column among the rows matching a filter, as PostgreSQL text
+export function buildWatermarkQuery(dataset: DatasetSource, column: string, filter?: FilterNode): SelectQuery {
+  const params: any[] = [...dataset.params];
+  let text = `SELECT MAX(${quoteIdentifier(column)})::text AS watermark FROM ${dataset.from}`;
+  if (filter) {
+    text += ` WHERE ${buildWhereClause(filter, params)}`;
+  }
+  return { text, params };
+}
+
+/**
+ * Lowest and highest id among the rows an export covers, as PostgreSQL text. With a
+ * row limit only the first rows by id count, so id ranges cover exactly those rows.
+ */
+export function buildIdBoundsQuery(options: StreamExporterOptions): SelectQuery {
+  const params: any[] = [...options.dataset.params];
+  const rowLimit = getRowLimit(options);
+
+  let rows = `SELECT "id" FROM ${options.dataset.from} WHERE "id" IS NOT NULL`;
+  if (options.filter) {
+    rows += ` AND ${buildWhereClause(options.filter, params)}`;
+  }
+  if (rowLimit > 0) {
+    rows += ` ORDER BY "id" LIMIT ${rowLimit}`;
+  }
+
+  return { text: `SELECT MIN("id")::text AS min, MAX("id")::text AS max FROM (${rows}) AS export_rows`, params };
+}
@@ -6,6 +6,7 @@ import { BenchmarkResponse, BenchmarkResult } from '../types';
 import { createExportStream, getFileExtension } from '../exporters';
 import { getTableRowCount } from '../database';
 import { getMemoryUsageMB } from '../utils';
+import { DEFAULT_DATASET, resolveDataset } from '../datasets';
 
 const router = Router();
 
@@ -28,6 +29,7 @@ async function benchmarkFormat(
   try {
     // Create export stream
     const stream = await createExportStream(format, {
+      dataset: await resolveDataset(DEFAULT_DATASET),
       columns: columnMapping,
       compression: undefined,
     });
@@ -131,6 +133,7 @@ router.get('/', async (req: Request, res: Response) => {
     }
 
     const response: BenchmarkResponse = {
+      dataset: DEFAULT_DATASET,
       datasetRowCount,
       results,
     };
@@ -0,0 +1,94 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import { jobStore } from '../store';
+import { getDataset, isBuiltinDataset, listDatasets, loadDatasetSchema, validateDataset } from '../datasets';
+import { canAccessDataset, filterAllowedColumns, isAuthEnabled, requireScope } from '../auth';
+
+const router = Router();
+
+// Registered queries run as the application's database user, so changes need an admin API key,
+// or DATASET_ADMIN_TOKEN while API keys are not configured
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (isAuthEnabled()) {
+    return requireScope('admin')(req, res, next);
+  }
+  const token = process.env.DATASET_ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({ error: 'Dataset administration is disabled; set DATASET_ADMIN_TOKEN' });
+  }
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(req.get('Authorization') ?? '');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: 'Invalid or missing admin token' });
+  }
+  next();
+}
+
+// POST /datasets - Register a table, view or parameterized query
+router.post('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const validationError = await validateDataset(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { name, kind, relation, sql, parameters } = req.body;
+    const dataset = await jobStore.createDataset({ name, kind, relation, sql, parameters });
+    if (!dataset) {
+      return res.status(409).json({ error: `Dataset ${name} already exists` });
+    }
+    res.status(201).json(dataset);
+  } catch (error) {
+    console.error('Error registering dataset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /datasets - List datasets, including the built-in records table
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const datasets = await listDatasets();
+    res.json({ datasets: datasets.filter(dataset => canAccessDataset(res, dataset.name)) });
+  } catch (error) {
+    console.error('Error listing datasets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /datasets/:name - Get a dataset and the columns exports can select
+router.get('/:name', async (req: Request, res: Response) => {
+  try {
+    const dataset = await getDataset(req.params.name);
+    if (!dataset || !canAccessDataset(res, dataset.name)) {
+      return res.status(404).json({ error: 'Dataset not found' });
+    }
+    const columnTypes = await loadDatasetSchema(dataset);
+    const allowed = filterAllowedColumns(res, dataset.name, Object.keys(columnTypes));
+    res.json({
+      ...dataset,
+      columns: allowed.map(name => ({ name, dataType: columnTypes[name].dataType })),
+    });
+  } catch (error) {
+    console.error('Error getting dataset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /datasets/:name - Unregister a dataset; exports that still reference it fail
+router.delete('/:name', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    if (isBuiltinDataset(req.params.name)) {
+      return res.status(400).json({ error: `The ${req.params.name} dataset is built in and cannot be deleted` });
+    }
+    const deleted = await jobStore.deleteDataset(req.params.name);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Dataset not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting dataset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
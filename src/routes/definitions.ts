@@ -0,0 +1,176 @@
+import { Router, Request, Response } from 'express';
+import { jobStore } from '../store';
+import { exportWorkerPool } from '../worker';
+import { toExportJobRequest, validateExportRequest } from '../validation';
+import {
+  createDefinitionRun,
+  isValidWatermarkColumn,
+  normalizeWatermark,
+  validateDefinitionName,
+  WATERMARK_COLUMNS,
+} from '../definitions';
+import { DEFAULT_DATASET, getDataset, resolveDataset } from '../datasets';
+import { checkExportPermission, getApiKey, requireScope } from '../auth';
+import { ExportDefinition } from '../types';
+
+const router = Router();
+
+// Definitions are shared, but each caller only sees those it could export itself
+function canUseDefinition(res: Response, definition: ExportDefinition): boolean {
+  return checkExportPermission(res, definition.request, [definition.watermarkColumn]) === null;
+}
+
+// POST /definitions - Create a named incremental export
+router.post('/', requireScope('exports:create'), async (req: Request, res: Response) => {
+  try {
+    const { name, watermarkColumn, watermark = null } = req.body ?? {};
+
+    const nameError = validateDefinitionName(name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+    if (!isValidWatermarkColumn(watermarkColumn)) {
+      return res.status(400).json({
+        error: `Invalid watermarkColumn. Must be one of: ${WATERMARK_COLUMNS.join(', ')}`,
+      });
+    }
+
+    const request = toExportJobRequest(req.body);
+    const validationError = await validateExportRequest(request);
+    if (validationError) {
+      return res.status(400).json(validationError);
+    }
+    const permissionError = checkExportPermission(res, request, [watermarkColumn]);
+    if (permissionError) {
+      return res.status(403).json({ error: permissionError });
+    }
+
+    const { columnTypes } = await resolveDataset(request.dataset, request.parameters);
+    if (!columnTypes[watermarkColumn]) {
+      return res.status(400).json({ error: `Dataset has no ${watermarkColumn} column to use as a watermark` });
+    }
+
+    const initialWatermark = await normalizeWatermark(watermarkColumn, watermark);
+    if (initialWatermark === undefined) {
+      return res.status(400).json({ error: `Invalid watermark for ${watermarkColumn}` });
+    }
+
+    const definition = await jobStore.createDefinition({
+      name,
+      watermarkColumn,
+      watermark: initialWatermark,
+      request,
+    });
+    if (!definition) {
+      return res.status(409).json({ error: `Export definition ${name} already exists` });
+    }
+    res.status(201).json(definition);
+  } catch (error) {
+    console.error('Error creating export definition:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /definitions - List export definitions
+router.get('/', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const definitions = await jobStore.listDefinitions();
+    res.json({ definitions: definitions.filter(definition => canUseDefinition(res, definition)) });
+  } catch (error) {
+    console.error('Error listing export definitions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /definitions/:name - Get an export definition and its watermark
+router.get('/:name', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const definition = await jobStore.getDefinition(req.params.name);
+    if (!definition || !canUseDefinition(res, definition)) {
+      return res.status(404).json({ error: 'Export definition not found' });
+    }
+    res.json(definition);
+  } catch (error) {
+    console.error('Error getting export definition:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /definitions/:name - Delete an export definition; its past runs are kept
+router.delete('/:name', requireScope('exports:create'), async (req: Request, res: Response) => {
+  try {
+    const definition = await jobStore.getDefinition(req.params.name);
+    const deleted = definition && canUseDefinition(res, definition)
+      ? await jobStore.deleteDefinition(req.params.name)
+      : false;
+    if (!deleted) {
+      return res.status(404).json({ error: 'Export definition not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting export definition:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /definitions/:name/watermark - Reset (null) or move the watermark
+router.put('/:name/watermark', requireScope('exports:create'), async (req: Request, res: Response) => {
+  try {
+    const definition = await jobStore.getDefinition(req.params.name);
+    if (!definition || !canUseDefinition(res, definition)) {
+      return res.status(404).json({ error: 'Export definition not found' });
+    }
+    if (!req.body || !('watermark' in req.body)) {
+      return res.status(400).json({ error: 'watermark is required (null to reset)' });
+    }
+
+    const watermark = await normalizeWatermark(definition.watermarkColumn, req.body.watermark);
+    if (watermark === undefined) {
+      return res.status(400).json({ error: `Invalid watermark for ${definition.watermarkColumn}` });
+    }
+    const updated = await jobStore.setDefinitionWatermark(definition.name, watermark);
+    res.json(updated ?? definition);
+  } catch (error) {
+    console.error('Error setting export definition watermark:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /definitions/:name/runs - Export the rows past the watermark, or past since to replay
+router.post('/:name/runs', requireScope('exports:create'), async (req: Request, res: Response) => {
+  try {
+    const definition = await jobStore.getDefinition(req.params.name);
+    if (!definition || !canUseDefinition(res, definition)) {
+      return res.status(404).json({ error: 'Export definition not found' });
+    }
+
+    const datasetName = definition.request.dataset ?? DEFAULT_DATASET;
+    if (!(await getDataset(datasetName))) {
+      return res.status(409).json({ error: `Dataset ${datasetName} no longer exists` });
+    }
+
+    let since: string | null | undefined;
+    if (req.body && req.body.since !== undefined) {
+      since = await normalizeWatermark(definition.watermarkColumn, req.body.since);
+      if (since === undefined) {
+        return res.status(400).json({ error: `Invalid since for ${definition.watermarkColumn}` });
+      }
+    }
+
+    const job = await createDefinitionRun(definition, since, getApiKey(res)?.id);
+    if (job.background) {
+      exportWorkerPool.enqueue(job.id);
+    }
+
+    res.status(201).json({
+      exportId: job.id,
+      status: job.status,
+      watermark: job.watermark,
+    });
+  } catch (error) {
+    console.error('Error starting export definition run:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,24 +1,95 @@
 import { Router, Request, Response } from 'express';
+import { Readable } from 'stream';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { ExportJobRequest, ExportFormat, BenchmarkResponse, BenchmarkResult } from '../types';
+import {
+  ExportFormat,
+  ExportJob,
+  ExportJobStatus,
+  ExportArtifact,
+  ExportResponse,
+  BenchmarkResponse,
+  BenchmarkResult,
+  CsvPathComparison,
+  DatasetSource,
+  StreamExporterOptions,
+} from '../types';
 import { jobStore } from '../store';
-import { createExportStream, getContentType, getFileExtension } from '../exporters';
-import { createGzipTransform, getMemoryUsageMB } from '../utils';
-import { getTableRowCount } from '../database';
+import { createExportStream, getContentType, getFileExtension, isCompressedFormat } from '../exporters';
+import { buildXmlSchema } from '../exporters/xml';
+import { canUseCopy, isCopyDataType } from '../exporters/copy';
+import { EXPORT_FORMATS, isValidFormat, toExportJobRequest, validateExportRequest } from '../validation';
+import { getMemoryUsageMB } from '../utils';
+import {
+  createCompressionTransform,
+  getCompressionContentType,
+  getCompressionSuffix,
+  getContentEncoding,
+  negotiateCompression,
+  NegotiatedCompression,
+} from '../compression';
+import { buildManifest, exportWorkerPool, getPartBaseName, hasParts } from '../worker';
+import { registerActiveExport, unregisterActiveExport, abortActiveExport } from '../cancellation';
+import { ExportProgressReporter, getProgressSnapshot } from '../progress';
+import { completeDefinitionRun } from '../definitions';
+import { canAccessDataset, canAccessJob, checkExportPermission, getApiKey, getListOwner, requireScope } from '../auth';
+import {
+  DEFAULT_DATASET,
+  getDataset,
+  getDatasetRowCount,
+  resolveDataset,
+  validateDatasetParameters,
+} from '../datasets';
 
 const router = Router();
 
-// Validate format
-function isValidFormat(format: any): format is ExportFormat {
-  return ['csv', 'json', 'xml', 'parquet'].includes(format);
+const JOB_STATUSES: ExportJobStatus[] = ['pending', 'in_progress', 'completed', 'failed', 'cancelled'];
+const SSE_POLL_INTERVAL_MS = 1000;
+const SSE_KEEPALIVE_MS = 15000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+function isValidStatus(status: any): status is ExportJobStatus {
+  return JOB_STATUSES.includes(status);
+}
+
+// Returns undefined when absent and null when present but not a valid date
+function parseDateParam(value: any): Date | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Returns the fallback when absent and null when present but not an integer
+function parseIntParam(value: any, fallback: number): number | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  return typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+// Job metadata as exposed by the API; the artifact's server-side path stays internal
+function toJobResponse(job: ExportJob) {
+  const { artifact, ...rest } = job;
+  if (!artifact) {
+    return rest;
+  }
+  const { path: _path, parts, ...artifactInfo } = artifact;
+  if (!parts) {
+    return { ...rest, artifact: artifactInfo };
+  }
+  return { ...rest, artifact: { ...artifactInfo, parts: parts.map(({ path: _partPath, ...part }) => part) } };
 }
 
 // Helper function to run a benchmark
 async function benchmarkFormat(
-  format: 'csv' | 'json' | 'xml' | 'parquet',
-  columnMapping: Array<{ source: string; target: string }>
+  format: ExportFormat,
+  dataset: DatasetSource,
+  columnMapping: Array<{ source: string; target: string }>,
+  csvCopy?: boolean
 ): Promise<BenchmarkResult> {
   const benchmarkRowLimit = Math.max(
     0,
@@ -37,11 +108,14 @@ async function benchmarkFormat(
 
   try {
     // Create export stream
-    const stream = await createExportStream(format, {
+    const options: StreamExporterOptions = {
+      dataset,
       columns: columnMapping,
       compression: undefined,
       rowLimit: benchmarkRowLimit > 0 ? benchmarkRowLimit : undefined,
-    });
+      csvCopy,
+    };
+    const stream = await createExportStream(format, options);
 
     // Write to file
     const fileStream = fs.createWriteStream(filePath);
@@ -61,6 +135,7 @@ async function benchmarkFormat(
 
         const result: BenchmarkResult = {
           format,
+          path: format === 'csv' ? (canUseCopy(options) ? 'copy' : 'cursor') : undefined,
           durationSeconds: Math.round(duration * 100) / 100,
           fileSizeBytes: fileSize,
           peakMemoryMB: Math.round(peakMemory * 100) / 100,
@@ -82,6 +157,118 @@ async function benchmarkFormat(
   }
 }
 
+// Stream a completed job's artifact file (or one part of it), honoring Range/If-Range so
+// interrupted downloads can resume. Resolves false if the file is not available on this instance.
+async function sendArtifact(
+  job: ExportJob,
+  req: Request,
+  res: Response,
+  artifact: Pick<ExportArtifact, 'path' | 'checksum'> = job.artifact as ExportArtifact,
+  baseName?: string
+): Promise<boolean> {
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(artifact.path);
+  } catch {
+    return false;
+  }
+
+  const etag = `"${artifact.checksum}"`;
+  const lastModified = stats.mtime.toUTCString();
+  // Artifacts are served as stored, without a negotiated coding, so byte ranges and the ETag hold
+  setFileHeaders(job, res, undefined, baseName);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', lastModified);
+
+  let start = 0;
+  let end = stats.size - 1;
+  if (req.headers.range && isIfRangeFresh(req.get('If-Range'), etag, stats.mtime)) {
+    const ranges = req.range(stats.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${stats.size}`);
+      res.status(416).end();
+      return true;
+    }
+    // Malformed headers and multi-range requests fall back to the full file
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+      start = ranges[0].start;
+      end = ranges[0].end;
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+    }
+  }
+  res.setHeader('Content-Length', end - start + 1);
+
+  if (req.method === 'HEAD' || stats.size === 0) {
+    res.end();
+    return true;
+  }
+
+  const fileStream = fs.createReadStream(artifact.path, { start, end });
+  fileStream.on('error', (error: Error) => {
+    console.error(`Error reading artifact for export ${job.id}:`, error);
+    res.destroy(error);
+  });
+  fileStream.pipe(res);
+  return true;
+}
+
+// Content type, encoding and filename for a job's file. Explicit compression is part of
+// the file, so it is sent as e.g. a .gz attachment that browsers do not decompress.
+function setFileHeaders(
+  job: ExportJob,
+  res: Response,
+  negotiated?: NegotiatedCompression,
+  baseName = `export_${job.id}`
+): void {
+  const filename = `${baseName}.${getFileExtension(job.format)}`;
+  if (job.compression) {
+    res.setHeader('Content-Type', getCompressionContentType(job.compression));
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}${getCompressionSuffix(job.compression)}"`);
+    return;
+  }
+  res.setHeader('Content-Type', getContentType(job.format));
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  if (negotiated) {
+    res.setHeader('Content-Encoding', getContentEncoding(negotiated.compression) as string);
+  }
+}
+
+// Responds unless the job is an export in parts whose parts have all been written
+function sendPartsStatus(job: ExportJob | undefined, res: Response): boolean {
+  if (!job || !canAccessJob(res, job)) {
+    res.status(404).json({ error: 'Export job not found' });
+  } else if (!hasParts(job)) {
+    res.status(400).json({ error: 'Export is not split into parts' });
+  } else if (job.status === 'failed' || job.status === 'cancelled') {
+    res.status(409).json({ error: `Export ${job.status}`, details: job.error });
+  } else if (job.status !== 'completed' || !job.artifact?.parts) {
+    const response: ExportResponse = { exportId: job.id, status: job.status };
+    res.status(202).json(response);
+  } else {
+    return false;
+  }
+  return true;
+}
+
+// If-Range only allows a partial response while the validator still matches the artifact
+function isIfRangeFresh(ifRange: string | undefined, etag: string, mtime: Date): boolean {
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+  const since = Date.parse(ifRange);
+  return !Number.isNaN(since) && Math.floor(mtime.getTime() / 1000) <= Math.floor(since / 1000);
+}
+
+// Status updates fired from stream events cannot be awaited, so failures are only logged
+function logStatusError(exportId: string) {
+  return (error: Error) => console.error(`Error updating status of export ${exportId}:`, error);
+}
+
 // Force garbage collection if available
 function forceGC(): void {
   if (global.gc) {
@@ -90,41 +277,25 @@ function forceGC(): void {
 }
 
 // POST /exports - Create export job
-router.post('/', (req: Request, res: Response) => {
+router.post('/', requireScope('exports:create'), async (req: Request, res: Response) => {
   try {
-    const { format, columns, compression } = req.body as ExportJobRequest;
-
-    // Validate request
-    if (!format || !isValidFormat(format)) {
-      return res.status(400).json({
-        error: 'Invalid or missing format. Must be one of: csv, json, xml, parquet',
-      });
+    const request = toExportJobRequest(req.body);
+    const validationError = await validateExportRequest(request);
+    if (validationError) {
+      return res.status(400).json(validationError);
     }
-
-    if (!Array.isArray(columns) || columns.length === 0) {
-      return res.status(400).json({
-        error: 'Columns must be a non-empty array',
-      });
+    const permissionError = checkExportPermission(res, request);
+    if (permissionError) {
+      return res.status(403).json({ error: permissionError });
     }
 
-    // Validate column mappings
-    for (const col of columns) {
-      if (!col.source || !col.target) {
-        return res.status(400).json({
-          error: 'Each column must have source and target properties',
-        });
-      }
-    }
+    // Create job
+    const job = await jobStore.createJob(request, undefined, getApiKey(res)?.id);
 
-    if (compression && compression !== 'gzip') {
-      return res.status(400).json({
-        error: 'Invalid compression. Must be gzip or omitted',
-      });
+    if (request.background) {
+      exportWorkerPool.enqueue(job.id);
     }
 
-    // Create job
-    const job = jobStore.createJob({ format, columns, compression });
-
     res.status(201).json({
       exportId: job.id,
       status: job.status,
@@ -136,44 +307,132 @@ router.post('/', (req: Request, res: Response) => {
 });
 
 // GET /exports/:exportId/download - Download export
-router.get('/:exportId/download', async (req: Request, res: Response) => {
+router.get('/:exportId/download', requireScope('exports:download'), async (req: Request, res: Response) => {
   try {
     const { exportId } = req.params;
 
     // Get job
-    const job = jobStore.getJob(exportId);
-    if (!job) {
+    const job = await jobStore.getJob(exportId);
+    if (!job || !canAccessJob(res, job)) {
       return res.status(404).json({ error: 'Export job not found' });
     }
 
-    // Update status
-    jobStore.updateJobStatus(exportId, 'in_progress');
+    if (job.status === 'cancelled') {
+      return res.status(409).json({ error: 'Export was cancelled' });
+    }
+
+    // Background jobs are only downloadable once the worker has finished them
+    if (job.background && job.status !== 'completed') {
+      if (job.status === 'failed') {
+        return res.status(409).json({ error: 'Export failed', details: job.error });
+      }
+      const response: ExportResponse = { exportId, status: job.status };
+      return res.status(202).json(response);
+    }
+
+    if (hasParts(job)) {
+      return res.status(409).json({
+        error: 'Exports in parts are downloaded by part',
+        manifest: `/exports/${exportId}/manifest`,
+      });
+    }
+
+    // Serve the materialized artifact instead of re-running the query
+    if (job.status === 'completed' && job.artifact && (await sendArtifact(job, req, res))) {
+      return;
+    }
+
+    const datasetName = job.dataset ?? DEFAULT_DATASET;
+    if (!(await getDataset(datasetName))) {
+      return res.status(409).json({ error: `Dataset ${datasetName} no longer exists` });
+    }
+
+    // Without explicit compression, compress for the transfer if the client accepts it
+    let negotiated: NegotiatedCompression | undefined;
+    if (!job.compression && !isCompressedFormat(job.format)) {
+      res.vary('Accept-Encoding');
+      negotiated = negotiateCompression(encodings => req.acceptsEncodings(encodings));
+    }
 
     // Set response headers
-    const contentType = getContentType(job.format);
-    const fileExtension = getFileExtension(job.format);
-    const filename = `export_${exportId}.${fileExtension}`;
+    setFileHeaders(job, res, negotiated);
+    // Live streams have no stable byte offsets to resume from
+    res.setHeader('Accept-Ranges', 'none');
 
-    res.setHeader('Content-Type', contentType);
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-    
-    if (job.compression === 'gzip') {
-      res.setHeader('Content-Encoding', 'gzip');
+    // HEAD must not start a full export
+    if (req.method === 'HEAD') {
+      return res.end();
     }
 
-    // Create export stream
-    const dataStream = await createExportStream(job.format, {
-      columns: job.columns,
-      compression: job.compression,
+    // Update status
+    await jobStore.updateJobStatus(exportId, 'in_progress');
+
+    // Create export stream; DELETE /exports/:exportId aborts it through the controller
+    const controller = registerActiveExport(exportId);
+    const reporter = new ExportProgressReporter(job);
+    reporter.start(controller.signal);
+    let dataStream: Readable;
+    try {
+      dataStream = await createExportStream(job.format, {
+        dataset: await resolveDataset(job.dataset, job.parameters),
+        columns: job.columns,
+        compression: job.compression,
+        filter: job.filter,
+        orderBy: job.orderBy,
+        csvOptions: job.csvOptions,
+        jsonOptions: job.jsonOptions,
+        xmlOptions: job.xmlOptions,
+        avroOptions: job.avroOptions,
+        parallel: job.parallel,
+        signal: controller.signal,
+        onProgress: stats => reporter.update(stats),
+      });
+    } catch (error) {
+      // Nothing has been sent yet, so the client gets an error instead of an attachment
+      console.error(`Error creating export stream ${exportId}:`, error);
+      unregisterActiveExport(exportId, controller);
+      await reporter.finish();
+      // A job cancelled while it waited (e.g. for parallel connections) stays cancelled
+      const message = error instanceof Error ? error.message : String(error);
+      await jobStore.transitionJobStatus(exportId, ['in_progress'], 'failed', message);
+      res.removeHeader('Content-Disposition');
+      res.removeHeader('Content-Encoding');
+      return res.status(500).json({ error: 'Export generation error' });
+    }
+
+    // A client that goes away mid-download would otherwise leave the cursor paused, holding its connection
+    let disconnected = false;
+    controller.signal.addEventListener('abort', () => {
+      console.log(`Export ${exportId} ${disconnected ? 'abandoned by the client' : 'cancelled during download'}`);
+      // Destroying the stream rolls back the cursor's transaction and releases its connection
+      dataStream.destroy();
+      // Destroy rather than end the response so the client cannot mistake it for a complete file
+      res.destroy();
+    });
+
+    res.on('close', () => {
+      unregisterActiveExport(exportId, controller);
+      if (!res.writableFinished && !controller.signal.aborted) {
+        disconnected = true;
+        controller.abort();
+        reporter
+          .finish()
+          .then(() =>
+            jobStore.transitionJobStatus(exportId, ['in_progress'], 'failed', 'Client disconnected during download')
+          )
+          .catch(logStatusError(exportId));
+      }
     });
 
     // Apply compression if needed
     let outputStream: any = dataStream;
-    if (job.compression === 'gzip') {
-      const gzipTransform = createGzipTransform('gzip');
-      if (gzipTransform) {
-        outputStream = dataStream.pipe(gzipTransform);
-      }
+    const compressor = createCompressionTransform(
+      job.compression ?? negotiated?.compression,
+      job.compression ? job.compressionLevel : negotiated?.level,
+      `export_${exportId}.${getFileExtension(job.format)}`
+    );
+    if (compressor) {
+      outputStream = dataStream.pipe(compressor);
     }
 
     // Stream to response
@@ -181,27 +440,39 @@ router.get('/:exportId/download', async (req: Request, res: Response) => {
 
     // Handle completion
     outputStream.on('end', () => {
-      jobStore.updateJobStatus(exportId, 'completed');
+      reporter
+        .finish()
+        .then(() => jobStore.transitionJobStatus(exportId, ['in_progress'], 'completed'))
+        .then(completed => (completed ? completeDefinitionRun(job) : undefined))
+        .catch(logStatusError(exportId));
     });
 
     // Handle errors
     outputStream.on('error', (error: Error) => {
       console.error(`Error streaming export ${exportId}:`, error);
-      jobStore.updateJobStatus(exportId, 'failed', error.message);
+      reporter
+        .finish()
+        .then(() => jobStore.transitionJobStatus(exportId, ['in_progress'], 'failed', error.message))
+        .catch(logStatusError(exportId));
       if (!res.headersSent) {
         res.status(500).json({ error: 'Streaming error' });
       } else {
-        res.end();
+        // Destroy rather than end the response so a truncated file cannot pass for a complete one
+        res.destroy(error);
       }
     });
 
     dataStream.on('error', (error: Error) => {
       console.error(`Error creating export stream ${exportId}:`, error);
-      jobStore.updateJobStatus(exportId, 'failed', error.message);
+      reporter
+        .finish()
+        .then(() => jobStore.transitionJobStatus(exportId, ['in_progress'], 'failed', error.message))
+        .catch(logStatusError(exportId));
       if (!res.headersSent) {
         res.status(500).json({ error: 'Export generation error' });
       } else {
-        res.end();
+        // Destroy rather than end the response so a truncated file cannot pass for a complete one
+        res.destroy(error);
       }
     });
 
@@ -210,37 +481,43 @@ router.get('/:exportId/download', async (req: Request, res: Response) => {
     if (!res.headersSent) {
       res.status(500).json({ error: 'Internal server error' });
     } else {
-      res.end();
+      res.destroy(error instanceof Error ? error : undefined);
     }
   }
 });
 
 // GET /exports/benchmark - Run performance benchmarks
-router.get('/benchmark', async (req: Request, res: Response) => {
+router.get('/benchmark', requireScope('benchmark'), async (req: Request, res: Response) => {
   try {
     console.log('Starting benchmark...');
 
+    // Benchmark the records table unless another dataset is named; query datasets use their defaults
+    const datasetName = typeof req.query.dataset === 'string' ? req.query.dataset : DEFAULT_DATASET;
+    const definition = await getDataset(datasetName);
+    if (!definition || !canAccessDataset(res, datasetName)) {
+      return res.status(400).json({ error: `Unknown dataset: ${datasetName}` });
+    }
+    const parametersError = validateDatasetParameters(definition, undefined);
+    if (parametersError) {
+      return res.status(400).json({ error: parametersError });
+    }
+    const dataset = await resolveDataset(datasetName);
+
     // Get dataset size
-    const datasetRowCount = await getTableRowCount('records');
+    const datasetRowCount = await getDatasetRowCount(dataset);
 
     if (datasetRowCount === 0) {
       return res.status(500).json({
-        error: 'Database is empty. Seeding may have failed.',
+        error: `Dataset ${datasetName} is empty.${datasetName === DEFAULT_DATASET ? ' Seeding may have failed.' : ''}`,
       });
     }
 
-    // Define column mapping for all records
-    const columnMapping = [
-      { source: 'id', target: 'id' },
-      { source: 'created_at', target: 'created_at' },
-      { source: 'name', target: 'name' },
-      { source: 'value', target: 'value' },
-      { source: 'metadata', target: 'metadata' },
-    ];
+    // Define column mapping for every column of the dataset
+    const columnMapping = Object.keys(dataset.columnTypes).map(column => ({ source: column, target: column }));
 
     // Run benchmarks for each format
     const results: BenchmarkResult[] = [];
-    const formats: Array<'csv' | 'json' | 'xml' | 'parquet'> = ['csv', 'json', 'xml', 'parquet'];
+    const formats = EXPORT_FORMATS;
 
     for (const format of formats) {
       console.log(`Benchmarking ${format}...`);
@@ -252,7 +529,7 @@ router.get('/benchmark', async (req: Request, res: Response) => {
       await new Promise(resolve => setTimeout(resolve, 1000));
 
       try {
-        const result = await benchmarkFormat(format, columnMapping);
+        const result = await benchmarkFormat(format, dataset, columnMapping);
         results.push(result);
         console.log(`${format}: ${result.durationSeconds}s, ${result.fileSizeBytes} bytes, ${result.peakMemoryMB}MB`);
       } catch (error) {
@@ -267,9 +544,36 @@ router.get('/benchmark', async (req: Request, res: Response) => {
       });
     }
 
+    // Compare the CSV paths over the columns COPY can write, which may be fewer than above
+    let csvPaths: CsvPathComparison | undefined;
+    const copyColumns = columnMapping.filter(col => isCopyDataType(dataset.columnTypes[col.source].dataType));
+    if (copyColumns.length > 0 && dataset.params.length === 0) {
+      try {
+        console.log('Benchmarking csv through a cursor and through COPY...');
+        forceGC();
+        const cursor = await benchmarkFormat('csv', dataset, copyColumns, false);
+        forceGC();
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        const copy = await benchmarkFormat('csv', dataset, copyColumns);
+        csvPaths = {
+          columns: copyColumns.map(col => col.source),
+          cursor,
+          copy,
+          speedup: copy.durationSeconds > 0
+            ? Math.round((cursor.durationSeconds / copy.durationSeconds) * 100) / 100
+            : 0,
+        };
+        console.log(`csv: cursor ${cursor.durationSeconds}s, copy ${copy.durationSeconds}s`);
+      } catch (error) {
+        console.error('Error comparing csv paths:', error);
+      }
+    }
+
     const response: BenchmarkResponse = {
+      dataset: datasetName,
       datasetRowCount,
       results,
+      csvPaths,
     };
 
     res.json(response);
@@ -279,4 +583,228 @@ router.get('/benchmark', async (req: Request, res: Response) => {
   }
 });
 
+// GET /exports/:exportId/events - Stream progress as Server-Sent Events
+router.get('/:exportId/events', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const { exportId } = req.params;
+    const job = await jobStore.getJob(exportId);
+    if (!job || !canAccessJob(res, job)) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (event: string, data: any) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Poll the store rather than in-process state so any replica can serve the stream
+    let lastProgressAt = 0;
+    let lastSentAt = Date.now();
+    let closed = false;
+    const poll = async () => {
+      if (closed) return;
+      try {
+        const current = await jobStore.getJob(exportId);
+        if (!current) {
+          send('failed', { exportId, status: 'failed', error: 'Export job not found' });
+          return res.end();
+        }
+
+        if (current.progress && current.progress.updatedAt.getTime() !== lastProgressAt) {
+          lastProgressAt = current.progress.updatedAt.getTime();
+          lastSentAt = Date.now();
+          send('progress', { exportId, status: current.status, ...getProgressSnapshot(current.progress) });
+        } else if (Date.now() - lastSentAt >= SSE_KEEPALIVE_MS) {
+          lastSentAt = Date.now();
+          res.write(': keep-alive\n\n');
+        }
+
+        if (['completed', 'failed', 'cancelled'].includes(current.status)) {
+          send(current.status, toJobResponse(current));
+          return res.end();
+        }
+      } catch (error) {
+        console.error(`Error polling progress of export ${exportId}:`, error);
+      }
+      if (!closed) {
+        timer = setTimeout(poll, SSE_POLL_INTERVAL_MS);
+      }
+    };
+
+    let timer = setTimeout(poll, 0);
+    req.on('close', () => {
+      closed = true;
+      clearTimeout(timer);
+    });
+  } catch (error) {
+    console.error('Error streaming export events:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// GET /exports - List export jobs
+router.get('/', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const { status, format, createdAfter, createdBefore, limit, offset } = req.query;
+
+    if (status !== undefined && !isValidStatus(status)) {
+      return res.status(400).json({
+        error: `Invalid status. Must be one of: ${JOB_STATUSES.join(', ')}`,
+      });
+    }
+    if (format !== undefined && !isValidFormat(format)) {
+      return res.status(400).json({ error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const after = parseDateParam(createdAfter);
+    const before = parseDateParam(createdBefore);
+    if (after === null || before === null) {
+      return res.status(400).json({ error: 'createdAfter and createdBefore must be ISO-8601 dates' });
+    }
+
+    const pageLimit = parseIntParam(limit, DEFAULT_PAGE_SIZE);
+    const pageOffset = parseIntParam(offset, 0);
+    if (pageLimit === null || pageLimit < 1 || pageLimit > MAX_PAGE_SIZE || pageOffset === null || pageOffset < 0) {
+      return res.status(400).json({
+        error: `limit must be between 1 and ${MAX_PAGE_SIZE} and offset must be non-negative`,
+      });
+    }
+
+    const result = await jobStore.listJobs({
+      owner: getListOwner(res),
+      status,
+      format,
+      createdAfter: after,
+      createdBefore: before,
+      limit: pageLimit,
+      offset: pageOffset,
+    });
+
+    res.json({
+      jobs: result.jobs.map(toJobResponse),
+      total: result.total,
+      limit: pageLimit,
+      offset: pageOffset,
+    });
+  } catch (error) {
+    console.error('Error listing export jobs:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /exports/:exportId/schema.xsd - XML Schema matching an xml export's layout
+router.get('/:exportId/schema.xsd', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const job = await jobStore.getJob(req.params.exportId);
+    if (!job || !canAccessJob(res, job)) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+    if (job.format !== 'xml') {
+      return res.status(400).json({ error: 'XML Schema is only available for xml exports' });
+    }
+
+    const xsd = await buildXmlSchema({
+      dataset: await resolveDataset(job.dataset, job.parameters),
+      columns: job.columns,
+      xmlOptions: job.xmlOptions,
+    });
+    res.setHeader('Content-Type', 'application/xml');
+    res.setHeader('Content-Disposition', `inline; filename="export_${job.id}.xsd"`);
+    res.send(xsd);
+  } catch (error) {
+    console.error('Error generating XML Schema:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /exports/:exportId/manifest - List the parts of a split export
+router.get('/:exportId/manifest', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const job = await jobStore.getJob(req.params.exportId);
+    if (sendPartsStatus(job, res)) {
+      return;
+    }
+    const completed = job as ExportJob;
+    res.json(buildManifest(completed, completed.artifact as ExportArtifact));
+  } catch (error) {
+    console.error('Error getting export manifest:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /exports/:exportId/parts/:part - Download one part of a split export
+router.get('/:exportId/parts/:part', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const job = await jobStore.getJob(req.params.exportId);
+    if (sendPartsStatus(job, res)) {
+      return;
+    }
+    const completed = job as ExportJob;
+    const partNumber = parseIntParam(req.params.part, 0);
+    const part = partNumber ? completed.artifact?.parts?.[partNumber - 1] : undefined;
+    if (!partNumber || !part) {
+      return res.status(404).json({ error: 'Export part not found' });
+    }
+    if (!(await sendArtifact(completed, req, res, part, getPartBaseName(completed.id, partNumber)))) {
+      res.status(404).json({ error: 'Export part file is not available' });
+    }
+  } catch (error) {
+    console.error('Error downloading export part:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    } else {
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+});
+
+// GET /exports/:exportId - Get export job metadata
+router.get('/:exportId', requireScope('exports:download'), async (req: Request, res: Response) => {
+  try {
+    const job = await jobStore.getJob(req.params.exportId);
+    if (!job || !canAccessJob(res, job)) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+    res.json(toJobResponse(job));
+  } catch (error) {
+    console.error('Error getting export job:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /exports/:exportId - Cancel an export job
+router.delete('/:exportId', requireScope('exports:create'), async (req: Request, res: Response) => {
+  try {
+    const { exportId } = req.params;
+    const job = await jobStore.getJob(exportId);
+    if (!job || !canAccessJob(res, job)) {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+
+    const cancelled = await jobStore.transitionJobStatus(exportId, ['pending', 'in_progress'], 'cancelled');
+    if (!cancelled) {
+      return res.status(409).json({
+        error: `Export cannot be cancelled in status ${job.status}`,
+      });
+    }
+
+    // Stops the cursor if it runs here; other replicas notice the status change
+    abortActiveExport(exportId);
+
+    const updated = await jobStore.getJob(exportId);
+    res.json(toJobResponse(updated ?? job));
+  } catch (error) {
+    console.error('Error cancelling export job:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
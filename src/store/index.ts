@@ -0,0 +1,19 @@
+import { ExportJobStore } from '../types';
+import { InMemoryExportJobStore } from './memory';
+import { PostgresExportJobStore } from './postgres';
+
+export { InMemoryExportJobStore } from './memory';
+export { PostgresExportJobStore } from './postgres';
+
+export function createJobStore(type: string = process.env.JOB_STORE || 'memory'): ExportJobStore {
+  switch (type) {
+    case 'memory':
+      return new InMemoryExportJobStore();
+    case 'postgres':
+      return new PostgresExportJobStore();
+    default:
+      throw new Error(`Unsupported job store: ${type}`);
+  }
+}
+
+export const jobStore = createJobStore();
@@ -0,0 +1,215 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Dataset,
+  ExportArtifact,
+  ExportDefinition,
+  ExportJob,
+  ExportJobListQuery,
+  ExportJobListResult,
+  ExportProgress,
+  ExportJobRequest,
+  ExportJobStatus,
+  ExportJobStore,
+  ExportWatermarkRange,
+} from '../types';
+
+export class InMemoryExportJobStore implements ExportJobStore {
+  private jobs: Map<string, ExportJob> = new Map();
+  private definitions: Map<string, ExportDefinition> = new Map();
+  private datasets: Map<string, Dataset> = new Map();
+
+  async initialize(): Promise<void> {
+    // Nothing to prepare
+  }
+
+  async createJob(request: ExportJobRequest, watermark?: ExportWatermarkRange, owner?: string): Promise<ExportJob> {
+    const job: ExportJob = {
+      ...request,
+      watermark,
+      owner,
+      id: uuidv4(),
+      status: 'pending',
+      createdAt: new Date(),
+    };
+
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async getJob(id: string): Promise<ExportJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async updateJobStatus(id: string, status: ExportJobStatus, error?: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      applyStatus(job, status, error);
+    }
+  }
+
+  async transitionJobStatus(
+    id: string,
+    from: ExportJobStatus[],
+    to: ExportJobStatus,
+    error?: string
+  ): Promise<boolean> {
+    // Check and update happen synchronously, so no other caller can interleave
+    const job = this.jobs.get(id);
+    if (!job || !from.includes(job.status)) {
+      return false;
+    }
+    applyStatus(job, to, error);
+    return true;
+  }
+
+  async setJobArtifact(id: string, artifact: ExportArtifact): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.artifact = artifact;
+    }
+  }
+
+  async setJobProgress(id: string, progress: ExportProgress): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      job.progress = progress;
+    }
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async getAllJobs(): Promise<ExportJob[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async renewJobLease(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'in_progress') {
+      return false;
+    }
+    job.heartbeatAt = new Date();
+    return true;
+  }
+
+  async listClaimableJobs(leaseExpiredBefore: Date, limit: number): Promise<ExportJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job =>
+        job.background &&
+        (job.status === 'pending' || (job.status === 'in_progress' && isLeaseExpired(job, leaseExpiredBefore)))
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async releaseExpiredJob(id: string, leaseExpiredBefore: Date): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'in_progress' || !isLeaseExpired(job, leaseExpiredBefore)) {
+      return false;
+    }
+    job.status = 'pending';
+    return true;
+  }
+
+  async listJobs(query: ExportJobListQuery): Promise<ExportJobListResult> {
+    const matching = Array.from(this.jobs.values())
+      .filter(job =>
+        (!query.owner || job.owner === query.owner) &&
+        (!query.status || job.status === query.status) &&
+        (!query.format || job.format === query.format) &&
+        (!query.createdAfter || job.createdAt >= query.createdAfter) &&
+        (!query.createdBefore || job.createdAt < query.createdBefore)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return {
+      jobs: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length,
+    };
+  }
+
+  async createDefinition(
+    input: Omit<ExportDefinition, 'createdAt' | 'updatedAt'>
+  ): Promise<ExportDefinition | undefined> {
+    if (this.definitions.has(input.name)) {
+      return undefined;
+    }
+    const now = new Date();
+    const definition: ExportDefinition = { ...input, createdAt: now, updatedAt: now };
+    this.definitions.set(definition.name, definition);
+    return definition;
+  }
+
+  async getDefinition(name: string): Promise<ExportDefinition | undefined> {
+    return this.definitions.get(name);
+  }
+
+  async listDefinitions(): Promise<ExportDefinition[]> {
+    return Array.from(this.definitions.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteDefinition(name: string): Promise<boolean> {
+    return this.definitions.delete(name);
+  }
+
+  async setDefinitionWatermark(name: string, watermark: string | null): Promise<ExportDefinition | undefined> {
+    const definition = this.definitions.get(name);
+    if (definition) {
+      definition.watermark = watermark;
+      definition.updatedAt = new Date();
+    }
+    return definition;
+  }
+
+  async advanceDefinitionWatermark(name: string, from: string | null, to: string): Promise<boolean> {
+    // Compare and set happen synchronously, like transitionJobStatus
+    const definition = this.definitions.get(name);
+    if (!definition || definition.watermark !== from) {
+      return false;
+    }
+    definition.watermark = to;
+    definition.updatedAt = new Date();
+    return true;
+  }
+
+  async createDataset(input: Omit<Dataset, 'createdAt'>): Promise<Dataset | undefined> {
+    if (this.datasets.has(input.name)) {
+      return undefined;
+    }
+    const dataset: Dataset = { ...input, createdAt: new Date() };
+    this.datasets.set(dataset.name, dataset);
+    return dataset;
+  }
+
+  async getDataset(name: string): Promise<Dataset | undefined> {
+    return this.datasets.get(name);
+  }
+
+  async listDatasets(): Promise<Dataset[]> {
+    return Array.from(this.datasets.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteDataset(name: string): Promise<boolean> {
+    return this.datasets.delete(name);
+  }
+}
+
+function applyStatus(job: ExportJob, status: ExportJobStatus, error?: string): void {
+  job.status = status;
+  if (status === 'in_progress') {
+    job.startedAt = new Date();
+    job.heartbeatAt = job.startedAt;
+  }
+  if (status === 'completed' || status === 'failed' || status === 'cancelled') {
+    job.completedAt = new Date();
+  }
+  if (error) {
+    job.error = error;
+  }
+}
+
+function isLeaseExpired(job: ExportJob, leaseExpiredBefore: Date): boolean {
+  const renewedAt = job.heartbeatAt ?? job.startedAt;
+  return !renewedAt || renewedAt < leaseExpiredBefore;
+}
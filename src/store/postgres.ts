@@ -0,0 +1,348 @@
+import { v4 as uuidv4 } from 'uuid';
+import { pool } from '../database';
+import {
+  Dataset,
+  ExportArtifact,
+  ExportDefinition,
+  ExportJob,
+  ExportJobListQuery,
+  ExportJobListResult,
+  ExportProgress,
+  ExportJobRequest,
+  ExportJobStatus,
+  ExportJobStore,
+  ExportWatermarkRange,
+} from '../types';
+
+const CREATE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS export_jobs (
+    id UUID PRIMARY KEY,
+    format TEXT NOT NULL,
+    definition JSONB NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ
+  );
+  ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS artifact JSONB;
+  ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS progress JSONB;
+  ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS owner TEXT;
+  ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+  CREATE INDEX IF NOT EXISTS idx_export_jobs_status ON export_jobs(status);
+  CREATE INDEX IF NOT EXISTS idx_export_jobs_created_at ON export_jobs(created_at);
+  CREATE INDEX IF NOT EXISTS idx_export_jobs_owner ON export_jobs(owner);
+  CREATE TABLE IF NOT EXISTS export_definitions (
+    name TEXT PRIMARY KEY,
+    watermark_column TEXT NOT NULL,
+    watermark TEXT,
+    request JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  CREATE TABLE IF NOT EXISTS export_datasets (
+    name TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    relation TEXT,
+    sql TEXT,
+    parameters JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+`;
+
+// Timestamp columns touched by a status change; expressions only, never user input
+const STATUS_TIMESTAMPS_SQL = `
+  updated_at = NOW(),
+  started_at = CASE WHEN $2 = 'in_progress' THEN NOW() ELSE started_at END,
+  heartbeat_at = CASE WHEN $2 = 'in_progress' THEN NOW() ELSE heartbeat_at END,
+  completed_at = CASE WHEN $2 IN ('completed', 'failed', 'cancelled') THEN NOW() ELSE completed_at END,
+  error = COALESCE($3, error)
+`;
+
+// Jobs claimed before heartbeat_at existed fall back to started_at; $1 is the expiry cutoff
+const LEASE_EXPIRED_SQL = `COALESCE(heartbeat_at, started_at, '-infinity') < $1`;
+
+export class PostgresExportJobStore implements ExportJobStore {
+  async initialize(): Promise<void> {
+    await pool.query(CREATE_TABLE_SQL);
+  }
+
+  async createJob(request: ExportJobRequest, watermark?: ExportWatermarkRange, owner?: string): Promise<ExportJob> {
+    const { format, ...definition } = request;
+    const result = await pool.query(
+      `INSERT INTO export_jobs (id, format, definition, status, owner)
+       VALUES ($1, $2, $3, 'pending', $4)
+       RETURNING *`,
+      [uuidv4(), format, JSON.stringify({ ...definition, watermark }), owner ?? null]
+    );
+    return rowToJob(result.rows[0]);
+  }
+
+  async getJob(id: string): Promise<ExportJob | undefined> {
+    // Malformed ids can never match and would otherwise raise a uuid cast error
+    if (!isUuid(id)) {
+      return undefined;
+    }
+    const result = await pool.query('SELECT * FROM export_jobs WHERE id = $1', [id]);
+    return result.rows.length > 0 ? rowToJob(result.rows[0]) : undefined;
+  }
+
+  async updateJobStatus(id: string, status: ExportJobStatus, error?: string): Promise<void> {
+    if (!isUuid(id)) {
+      return;
+    }
+    await pool.query(
+      `UPDATE export_jobs SET status = $2, ${STATUS_TIMESTAMPS_SQL} WHERE id = $1`,
+      [id, status, error ?? null]
+    );
+  }
+
+  async transitionJobStatus(
+    id: string,
+    from: ExportJobStatus[],
+    to: ExportJobStatus,
+    error?: string
+  ): Promise<boolean> {
+    if (!isUuid(id)) {
+      return false;
+    }
+    // A single conditional UPDATE is atomic, so only one replica can win the transition
+    const result = await pool.query(
+      `UPDATE export_jobs SET status = $2, ${STATUS_TIMESTAMPS_SQL}
+        WHERE id = $1 AND status = ANY($4)`,
+      [id, to, error ?? null, from]
+    );
+    return result.rowCount === 1;
+  }
+
+  async setJobArtifact(id: string, artifact: ExportArtifact): Promise<void> {
+    if (!isUuid(id)) {
+      return;
+    }
+    await pool.query(
+      'UPDATE export_jobs SET artifact = $2, updated_at = NOW() WHERE id = $1',
+      [id, JSON.stringify(artifact)]
+    );
+  }
+
+  async setJobProgress(id: string, progress: ExportProgress): Promise<void> {
+    if (!isUuid(id)) {
+      return;
+    }
+    await pool.query(
+      'UPDATE export_jobs SET progress = $2, updated_at = NOW() WHERE id = $1',
+      [id, JSON.stringify(progress)]
+    );
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    if (!isUuid(id)) {
+      return;
+    }
+    await pool.query('DELETE FROM export_jobs WHERE id = $1', [id]);
+  }
+
+  async getAllJobs(): Promise<ExportJob[]> {
+    const result = await pool.query('SELECT * FROM export_jobs ORDER BY created_at');
+    return result.rows.map(rowToJob);
+  }
+
+  async renewJobLease(id: string): Promise<boolean> {
+    if (!isUuid(id)) {
+      return false;
+    }
+    const result = await pool.query(
+      `UPDATE export_jobs SET heartbeat_at = NOW() WHERE id = $1 AND status = 'in_progress'`,
+      [id]
+    );
+    return result.rowCount === 1;
+  }
+
+  async listClaimableJobs(leaseExpiredBefore: Date, limit: number): Promise<ExportJob[]> {
+    const result = await pool.query(
+      `SELECT * FROM export_jobs
+        WHERE definition->>'background' = 'true'
+          AND (status = 'pending' OR (status = 'in_progress' AND ${LEASE_EXPIRED_SQL}))
+        ORDER BY created_at
+        LIMIT $2`,
+      [leaseExpiredBefore, limit]
+    );
+    return result.rows.map(rowToJob);
+  }
+
+  async releaseExpiredJob(id: string, leaseExpiredBefore: Date): Promise<boolean> {
+    if (!isUuid(id)) {
+      return false;
+    }
+    // The lease is checked again in the UPDATE, so a job another replica has just reclaimed stays put
+    const result = await pool.query(
+      `UPDATE export_jobs SET status = 'pending', updated_at = NOW()
+        WHERE id = $2 AND status = 'in_progress' AND ${LEASE_EXPIRED_SQL}`,
+      [leaseExpiredBefore, id]
+    );
+    return result.rowCount === 1;
+  }
+
+  async listJobs(query: ExportJobListQuery): Promise<ExportJobListResult> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (query.owner) {
+      params.push(query.owner);
+      conditions.push(`owner = $${params.length}`);
+    }
+    if (query.status) {
+      params.push(query.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (query.format) {
+      params.push(query.format);
+      conditions.push(`format = $${params.length}`);
+    }
+    if (query.createdAfter) {
+      params.push(query.createdAfter);
+      conditions.push(`created_at >= $${params.length}`);
+    }
+    if (query.createdBefore) {
+      params.push(query.createdBefore);
+      conditions.push(`created_at < $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await pool.query(`SELECT COUNT(*) AS count FROM export_jobs ${where}`, params);
+    const result = await pool.query(
+      `SELECT * FROM export_jobs ${where}
+        ORDER BY created_at DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, query.limit, query.offset]
+    );
+
+    return {
+      jobs: result.rows.map(rowToJob),
+      total: parseInt(countResult.rows[0].count, 10),
+    };
+  }
+
+  async createDefinition(
+    definition: Omit<ExportDefinition, 'createdAt' | 'updatedAt'>
+  ): Promise<ExportDefinition | undefined> {
+    const result = await pool.query(
+      `INSERT INTO export_definitions (name, watermark_column, watermark, request)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (name) DO NOTHING
+       RETURNING *`,
+      [definition.name, definition.watermarkColumn, definition.watermark, JSON.stringify(definition.request)]
+    );
+    return result.rows.length > 0 ? rowToDefinition(result.rows[0]) : undefined;
+  }
+
+  async getDefinition(name: string): Promise<ExportDefinition | undefined> {
+    const result = await pool.query('SELECT * FROM export_definitions WHERE name = $1', [name]);
+    return result.rows.length > 0 ? rowToDefinition(result.rows[0]) : undefined;
+  }
+
+  async listDefinitions(): Promise<ExportDefinition[]> {
+    const result = await pool.query('SELECT * FROM export_definitions ORDER BY name');
+    return result.rows.map(rowToDefinition);
+  }
+
+  async deleteDefinition(name: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM export_definitions WHERE name = $1', [name]);
+    return result.rowCount === 1;
+  }
+
+  async setDefinitionWatermark(name: string, watermark: string | null): Promise<ExportDefinition | undefined> {
+    const result = await pool.query(
+      `UPDATE export_definitions SET watermark = $2, updated_at = NOW()
+        WHERE name = $1
+        RETURNING *`,
+      [name, watermark]
+    );
+    return result.rows.length > 0 ? rowToDefinition(result.rows[0]) : undefined;
+  }
+
+  async advanceDefinitionWatermark(name: string, from: string | null, to: string): Promise<boolean> {
+    // Conditional UPDATE, so two runs finishing at once cannot both advance from the same value
+    const result = await pool.query(
+      `UPDATE export_definitions SET watermark = $3, updated_at = NOW()
+        WHERE name = $1 AND watermark IS NOT DISTINCT FROM $2`,
+      [name, from, to]
+    );
+    return result.rowCount === 1;
+  }
+
+  async createDataset(dataset: Omit<Dataset, 'createdAt'>): Promise<Dataset | undefined> {
+    const result = await pool.query(
+      `INSERT INTO export_datasets (name, kind, relation, sql, parameters)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (name) DO NOTHING
+       RETURNING *`,
+      [
+        dataset.name,
+        dataset.kind,
+        dataset.relation ?? null,
+        dataset.sql ?? null,
+        dataset.parameters ? JSON.stringify(dataset.parameters) : null,
+      ]
+    );
+    return result.rows.length > 0 ? rowToDataset(result.rows[0]) : undefined;
+  }
+
+  async getDataset(name: string): Promise<Dataset | undefined> {
+    const result = await pool.query('SELECT * FROM export_datasets WHERE name = $1', [name]);
+    return result.rows.length > 0 ? rowToDataset(result.rows[0]) : undefined;
+  }
+
+  async listDatasets(): Promise<Dataset[]> {
+    const result = await pool.query('SELECT * FROM export_datasets ORDER BY name');
+    return result.rows.map(rowToDataset);
+  }
+
+  async deleteDataset(name: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM export_datasets WHERE name = $1', [name]);
+    return result.rowCount === 1;
+  }
+}
+
+function isUuid(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+}
+
+function rowToJob(row: any): ExportJob {
+  return {
+    ...row.definition,
+    id: row.id,
+    format: row.format,
+    owner: row.owner ?? undefined,
+    status: row.status,
+    error: row.error ?? undefined,
+    artifact: row.artifact ?? undefined,
+    progress: row.progress ? { ...row.progress, updatedAt: new Date(row.progress.updatedAt) } : undefined,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    heartbeatAt: row.heartbeat_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+function rowToDefinition(row: any): ExportDefinition {
+  return {
+    name: row.name,
+    watermarkColumn: row.watermark_column,
+    watermark: row.watermark ?? null,
+    request: row.request,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function rowToDataset(row: any): Dataset {
+  return {
+    name: row.name,
+    kind: row.kind,
+    relation: row.relation ?? undefined,
+    sql: row.sql ?? undefined,
+    parameters: row.parameters ?? undefined,
+    createdAt: row.created_at,
+  };
+}
@@ -1,7 +1,16 @@
 import axios, { AxiosError } from 'axios';
+import * as crypto from 'crypto';
+import { decodeThrift } from 'parquetjs/lib/util';
+import * as parquetThrift from 'parquetjs/gen-nodejs/parquet_types';
 
 const BASE_URL = process.env.API_URL || 'http://localhost:8080';
-const client = axios.create({ baseURL: BASE_URL, timeout: 30000 });
+// API_KEY authenticates every request when the server has API_KEYS_FILE set; use an admin key
+const API_KEY = process.env.API_KEY;
+const client = axios.create({
+  baseURL: BASE_URL,
+  timeout: 30000,
+  headers: API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {},
+});
 
 interface TestResult {
   name: string;
@@ -86,6 +95,65 @@ async function runTests() {
     });
   }
 
+  await test('CSV Dialect Options', async () => {
+    const created = await client.post('/exports', {
+      format: 'csv',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'metadata', target: 'missing', path: ['missing'] },
+      ],
+      filter: { field: 'id', operator: 'eq', value: 1 },
+      csvOptions: { preset: 'tsv', nullValue: '\\N' },
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'text' });
+    if (response.data !== 'id\tmissing\n1\t\\N\n') {
+      throw new Error(`Unexpected TSV output: ${JSON.stringify(response.data)}`);
+    }
+  });
+
+  await test('Reject Invalid CSV Delimiter', async () => {
+    try {
+      await client.post('/exports', {
+        format: 'csv',
+        columns: [{ source: 'id', target: 'id' }],
+        csvOptions: { delimiter: 'colon' },
+      });
+      throw new Error('Should have rejected invalid delimiter');
+    } catch (error) {
+      if (error instanceof AxiosError && error.response?.status === 400) {
+        return; // Expected
+      }
+      throw error;
+    }
+  });
+
+  await test('CSV COPY Path Matches Cursor Path', async () => {
+    // A no-op coalesce on a NOT NULL column forces the same export through the cursor path.
+    // Filtered exports always take the cursor path, so both read the whole table and stop early.
+    const download = async (nameColumn: Record<string, any>) => {
+      const created = await client.post('/exports', {
+        format: 'csv',
+        columns: [{ source: 'id', target: 'Record ID' }, nameColumn, { source: 'value', target: 'value' }],
+        orderBy: [{ field: 'id', direction: 'desc' }],
+        csvOptions: { delimiter: 'semicolon', quoting: 'non_numeric', bom: true },
+      });
+      const response = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'stream' });
+      let text = '';
+      for await (const chunk of response.data) {
+        text += chunk.toString();
+        if (text.split('\n').length > 6) break;
+      }
+      response.data.destroy();
+      return text.split('\n').slice(0, 6).join('\n') + '\n';
+    };
+    const copy = await download({ source: 'name', target: 'name' });
+    const cursor = await download({ source: 'name', target: 'name', transforms: [{ type: 'coalesce', value: '' }] });
+    if (copy !== cursor) {
+      throw new Error(`COPY output differs: ${JSON.stringify(copy)} vs ${JSON.stringify(cursor)}`);
+    }
+    if (copy.trim().split('\n').length !== 6) throw new Error('Expected a header and 5 rows');
+  });
+
   // Test 4: Create JSON Export Job
   let jsonExportId = '';
   await test('Create JSON Export Job', async () => {
@@ -116,6 +184,68 @@ async function runTests() {
     });
   }
 
+  await test('NDJSON Export', async () => {
+    const created = await client.post('/exports', {
+      format: 'ndjson',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'metadata', target: 'metadata' },
+      ],
+      filter: { field: 'id', operator: 'lte', value: 3 },
+      orderBy: [{ field: 'id' }],
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'text' });
+    if (response.headers['content-type'] !== 'application/x-ndjson') {
+      throw new Error('Expected content-type: application/x-ndjson');
+    }
+    if (!String(response.headers['content-disposition']).includes('.jsonl')) {
+      throw new Error('Expected .jsonl filename');
+    }
+    const lines = response.data.split('\n').filter((line: string) => line.length > 0);
+    if (lines.length !== 3) throw new Error(`Expected 3 lines, got ${lines.length}`);
+    const ids = lines.map((line: string) => JSON.parse(line).id);
+    if (ids.join(',') !== '1,2,3') throw new Error(`Unexpected ids: ${ids.join(',')}`);
+  });
+
+  await test('Typed and Nested JSON Output', async () => {
+    const created = await client.post('/exports', {
+      format: 'ndjson',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'value', target: 'value' },
+        { source: 'created_at', target: 'meta.created' },
+        { source: 'metadata', target: 'meta.category', path: ['category'] },
+      ],
+      jsonOptions: { decimals: 'number', bigints: 'number', timestamps: 'epoch_ms', nest: true },
+      filter: { field: 'id', operator: 'eq', value: 1 },
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'text' });
+    const row = JSON.parse(response.data.split('\n')[0]);
+    if (row.id !== 1 || typeof row.value !== 'number') {
+      throw new Error(`Expected numeric id and value, got ${JSON.stringify(row)}`);
+    }
+    if (typeof row.meta?.created !== 'number' || typeof row.meta?.category !== 'string') {
+      throw new Error(`Expected nested meta object, got ${JSON.stringify(row)}`);
+    }
+
+    try {
+      await client.post('/exports', {
+        format: 'json',
+        columns: [
+          { source: 'metadata', target: 'meta' },
+          { source: 'name', target: 'meta.name' },
+        ],
+        jsonOptions: { nest: true },
+      });
+      throw new Error('Should have rejected conflicting nested targets');
+    } catch (error) {
+      if (error instanceof AxiosError && error.response?.status === 400) {
+        return;
+      }
+      throw error;
+    }
+  });
+
   // Test 6: Create XML Export Job
   let xmlExportId = '';
   await test('Create XML Export Job', async () => {
@@ -145,6 +275,36 @@ async function runTests() {
     });
   }
 
+  await test('XML Layout Options and Schema', async () => {
+    const created = await client.post('/exports', {
+      format: 'xml',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'metadata', target: 'metadata' },
+      ],
+      filter: { field: 'id', operator: 'eq', value: 1 },
+      xmlOptions: { rootElement: 'Rows', rowElement: 'Row', itemElement: 'tag', attributes: true, nil: true },
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'text' });
+    if (!response.data.includes('<Row id="1">')) throw new Error('Expected id as an attribute of <Row>');
+    if (!response.data.includes('<tag>')) throw new Error('Expected <tag> array items');
+
+    const schema = await client.get(`/exports/${created.data.exportId}/schema.xsd`, { responseType: 'text' });
+    if (!schema.data.includes('<xs:element name="Rows">')) throw new Error('XSD does not match root element');
+    if (!schema.data.includes('<xs:attribute name="id" type="xs:long"')) throw new Error('XSD missing id attribute');
+
+    try {
+      await client.post('/exports', {
+        format: 'xml',
+        columns: [{ source: 'id', target: 'a.b' }, { source: 'name', target: 'a b' }],
+        xmlOptions: { attributes: true },
+      });
+      throw new Error('Should have rejected targets that collide as XML names');
+    } catch (error) {
+      if (!(error instanceof AxiosError && error.response?.status === 400)) throw error;
+    }
+  });
+
   // Test 8: Create Parquet Export Job
   let parquetExportId = '';
   await test('Create Parquet Export Job', async () => {
@@ -176,6 +336,131 @@ async function runTests() {
     });
   }
 
+  await test('Parquet Export Is A Typed Parquet File', async () => {
+    const created = await client.post('/exports', {
+      format: 'parquet',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'name', target: 'name' },
+        { source: 'value', target: 'value' },
+        { source: 'created_at', target: 'created_at' },
+      ],
+      filter: { field: 'id', operator: 'lte', value: 100 },
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, {
+      responseType: 'arraybuffer',
+    });
+    const data = Buffer.from(response.data);
+    if (data.subarray(0, 4).toString() !== 'PAR1' || data.subarray(data.length - 4).toString() !== 'PAR1') {
+      throw new Error('Expected PAR1 magic at the start and end of the file');
+    }
+
+    const footerLength = data.readUInt32LE(data.length - 8);
+    const metadata = new parquetThrift.FileMetaData();
+    decodeThrift(metadata, data.subarray(data.length - 8 - footerLength, data.length - 8));
+    if (Number(metadata.num_rows) !== 100) throw new Error(`Expected 100 rows, got ${metadata.num_rows}`);
+
+    const fields = new Map<string, any>(metadata.schema.slice(1).map((element: any) => [element.name, element]));
+    const expected: Array<[string, string, string | null]> = [
+      ['id', 'INT64', null],
+      ['name', 'BYTE_ARRAY', 'UTF8'],
+      ['value', 'FIXED_LEN_BYTE_ARRAY', 'DECIMAL'],
+      ['created_at', 'INT64', 'TIMESTAMP_MICROS'],
+    ];
+    for (const [name, type, convertedType] of expected) {
+      const field = fields.get(name);
+      if (field?.type !== parquetThrift.Type[type]) {
+        throw new Error(`Expected ${name} to be ${type}, got type ${field?.type}`);
+      }
+      if ((field.converted_type ?? null) !== (convertedType ? parquetThrift.ConvertedType[convertedType] : null)) {
+        throw new Error(`Expected ${name} to be annotated ${convertedType}, got ${field.converted_type}`);
+      }
+    }
+  });
+
+  await test('XLSX Export', async () => {
+    const created = await client.post('/exports', {
+      format: 'xlsx',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'value', target: 'value' },
+        { source: 'created_at', target: 'created_at' },
+      ],
+      filter: { field: 'id', operator: 'lte', value: 100 },
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, {
+      responseType: 'arraybuffer',
+    });
+    if (response.headers['content-type'] !== 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+      throw new Error('Expected xlsx content-type');
+    }
+    // Workbooks are zip archives
+    if (Buffer.from(response.data).subarray(0, 2).toString() !== 'PK') throw new Error('Expected zip signature');
+  });
+
+  await test('Avro Export', async () => {
+    const created = await client.post('/exports', {
+      format: 'avro',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'value', target: 'value' },
+        { source: 'created_at', target: 'created_at' },
+        { source: 'metadata', target: 'metadata' },
+      ],
+      filter: { field: 'id', operator: 'lte', value: 100 },
+      avroOptions: { codec: 'deflate', jsonAs: 'record' },
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, {
+      responseType: 'arraybuffer',
+    });
+    if (response.headers['content-type'] !== 'application/avro') throw new Error('Expected avro content-type');
+    const data = Buffer.from(response.data);
+    if (data.subarray(0, 4).toString('latin1') !== 'Obj\x01') throw new Error('Expected Avro magic');
+    if (!data.includes('"logicalType":"timestamp-micros"')) throw new Error('Missing timestamp-micros in schema');
+  });
+
+  await test('Avro Parts Share One Schema', async () => {
+    const created = await client.post('/exports', {
+      format: 'avro',
+      columns: [{ source: 'id', target: 'id' }, { source: 'metadata', target: 'metadata' }],
+      filter: { field: 'id', operator: 'lte', value: 3000 },
+      avroOptions: { jsonAs: 'record' },
+      parallel: { partitions: 3, output: 'parts' },
+      background: true,
+    });
+    let manifest = await client.get(`/exports/${created.data.exportId}/manifest`);
+    for (let attempt = 0; manifest.status === 202 && attempt < 60; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      manifest = await client.get(`/exports/${created.data.exportId}/manifest`);
+    }
+
+    const schemas = new Set<string>();
+    for (let part = 1; part <= manifest.data.parts.length; part++) {
+      const response = await client.get(`/exports/${created.data.exportId}/parts/${part}`, {
+        responseType: 'arraybuffer',
+      });
+      const header = Buffer.from(response.data).toString('latin1');
+      schemas.add(header.slice(header.indexOf('avro.schema'), header.indexOf('avro.codec')));
+    }
+    if (schemas.size !== 1) throw new Error(`Expected one schema across parts, got ${schemas.size}`);
+  });
+
+  await test('Reject Invalid Avro Codec', async () => {
+    try {
+      await client.post('/exports', {
+        format: 'avro',
+        columns: [{ source: 'id', target: 'id' }],
+        avroOptions: { codec: 'snappy' },
+      });
+      throw new Error('Should have rejected invalid codec');
+    } catch (error) {
+      if (error instanceof AxiosError && error.response?.status === 400) {
+        return; // Expected
+      }
+      throw error;
+    }
+  });
+
   // Test 10: Test gzip Compression
   let gzipExportId = '';
   await test('Create CSV Export with Gzip Compression', async () => {
@@ -200,12 +485,62 @@ async function runTests() {
       });
       
       if (response.status !== 200) throw new Error(`Expected status 200`);
-      if (response.headers['content-encoding'] !== 'gzip') {
-        throw new Error('Expected content-encoding: gzip');
+      // Explicit compression is an attachment, not a transfer encoding
+      if (response.headers['content-type'] !== 'application/gzip' || response.headers['content-encoding']) {
+        throw new Error('Expected an application/gzip attachment without content-encoding');
+      }
+      if (!String(response.headers['content-disposition']).includes('.csv.gz')) {
+        throw new Error('Expected .csv.gz filename');
       }
     });
   }
 
+  await test('Zip Compression', async () => {
+    const zipJob = await client.post('/exports', {
+      format: 'csv',
+      columns: [{ source: 'id', target: 'ID' }],
+      filter: { field: 'id', operator: 'lte', value: 10 },
+      compression: 'zip',
+      compressionLevel: 9,
+    });
+    const zipResponse = await client.get(`/exports/${zipJob.data.exportId}/download`, {
+      responseType: 'arraybuffer',
+    });
+    if (zipResponse.headers['content-type'] !== 'application/zip') {
+      throw new Error('Expected content-type: application/zip');
+    }
+    if (Buffer.from(zipResponse.data).readUInt32LE(0) !== 0x04034b50) {
+      throw new Error('Expected a zip local file header');
+    }
+  });
+
+  await test('Negotiate Content-Encoding', async () => {
+    const created = await client.post('/exports', {
+      format: 'json',
+      columns: [{ source: 'id', target: 'id' }],
+      filter: { field: 'id', operator: 'lte', value: 10 },
+    });
+    const url = `/exports/${created.data.exportId}/download`;
+
+    const brotli = await client.get(url, {
+      headers: { 'Accept-Encoding': 'br' },
+      responseType: 'arraybuffer',
+      decompress: false,
+    });
+    if (brotli.headers['content-encoding'] !== 'br') {
+      throw new Error('Expected content-encoding: br');
+    }
+    if (!String(brotli.headers['vary']).includes('Accept-Encoding')) {
+      throw new Error('Expected Vary: Accept-Encoding');
+    }
+
+    const identity = await client.get(url, { headers: { 'Accept-Encoding': 'identity' }, responseType: 'text' });
+    if (identity.headers['content-encoding']) {
+      throw new Error('Expected no content-encoding');
+    }
+    if (JSON.parse(identity.data).length !== 10) throw new Error('Expected 10 rows');
+  });
+
   // Test 11: Invalid Export Format
   await test('Reject Invalid Export Format', async () => {
     try {
@@ -238,6 +573,526 @@ async function runTests() {
     }
   });
 
+  // Filtered and ordered export
+  let filteredExportId = '';
+  await test('Create Filtered JSON Export Job', async () => {
+    const response = await client.post('/exports', {
+      format: 'json',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'value', target: 'value' },
+      ],
+      filter: {
+        and: [
+          { field: 'id', operator: 'between', value: [1, 50] },
+          { field: 'metadata', path: ['category'], operator: 'in', value: ['A', 'B'] },
+        ],
+      },
+      orderBy: [{ field: 'id', direction: 'desc' }],
+    });
+
+    if (response.status !== 201) throw new Error(`Expected status 201`);
+    filteredExportId = response.data.exportId;
+  });
+
+  if (filteredExportId) {
+    await test('Download Filtered JSON Export', async () => {
+      const response = await client.get(`/exports/${filteredExportId}/download`);
+
+      if (response.status !== 200) throw new Error(`Expected status 200`);
+      const rows = response.data as Array<{ id: string | number }>;
+      if (!Array.isArray(rows)) throw new Error('Expected JSON array');
+      const ids = rows.map(row => Number(row.id));
+      if (ids.some(id => id < 1 || id > 50)) throw new Error('Row outside filtered id range');
+      for (let i = 1; i < ids.length; i++) {
+        if (ids[i] > ids[i - 1]) throw new Error('Rows not ordered by id desc');
+      }
+    });
+  }
+
+  await test('Reject Invalid Filter Operator', async () => {
+    try {
+      await client.post('/exports', {
+        format: 'csv',
+        columns: [{ source: 'id', target: 'id' }],
+        filter: { field: 'id', operator: 'drop', value: 1 },
+      });
+      throw new Error('Should have rejected invalid filter');
+    } catch (error) {
+      if (error instanceof AxiosError && error.response?.status === 400) {
+        return; // Expected
+      }
+      throw error;
+    }
+  });
+
+  await test('Reject Unknown Column Source', async () => {
+    try {
+      await client.post('/exports', {
+        format: 'csv',
+        columns: [{ source: 'id; DROP TABLE records', target: 'id' }],
+      });
+      throw new Error('Should have rejected unknown column');
+    } catch (error) {
+      if (error instanceof AxiosError && error.response?.status === 400) {
+        if (!Array.isArray(error.response.data.validColumns)) {
+          throw new Error('Expected validColumns in error response');
+        }
+        return; // Expected
+      }
+      throw error;
+    }
+  });
+
+  // Computed columns from JSONB paths and transforms
+  let computedExportId = '';
+  await test('Create CSV Export with Computed Columns', async () => {
+    const response = await client.post('/exports', {
+      format: 'csv',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'metadata', target: 'category', path: ['category'], transforms: [{ type: 'lowercase' }] },
+        { source: 'metadata', target: 'first_tag', path: ['tags', '0'] },
+        { source: 'value', target: 'value', transforms: [{ type: 'round', digits: 1 }] },
+        { source: 'created_at', target: 'day', transforms: [{ type: 'date_format', format: 'YYYY-MM-DD' }] },
+      ],
+      filter: { field: 'id', operator: 'lte', value: 10 },
+    });
+
+    if (response.status !== 201) throw new Error(`Expected status 201`);
+    computedExportId = response.data.exportId;
+  });
+
+  if (computedExportId) {
+    await test('Download CSV Export with Computed Columns', async () => {
+      const response = await client.get(`/exports/${computedExportId}/download`, {
+        responseType: 'text',
+      });
+
+      if (response.status !== 200) throw new Error(`Expected status 200`);
+      const lines = (response.data as string).trim().split('\n');
+      if (lines[0] !== 'id,category,first_tag,value,day') {
+        throw new Error(`Unexpected header: ${lines[0]}`);
+      }
+      const [, category, firstTag, , day] = lines[1].split(',');
+      if (!/^[a-d]$/.test(category)) throw new Error(`Unexpected category: ${category}`);
+      if (!firstTag.startsWith('tag_')) throw new Error(`Unexpected first tag: ${firstTag}`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) throw new Error(`Unexpected day: ${day}`);
+    });
+  }
+
+  await test('Reject Path on Non-JSON Column', async () => {
+    try {
+      await client.post('/exports', {
+        format: 'csv',
+        columns: [{ source: 'name', target: 'name', path: ['x'] }],
+      });
+      throw new Error('Should have rejected path on non-JSON column');
+    } catch (error) {
+      if (error instanceof AxiosError && error.response?.status === 400) {
+        return; // Expected
+      }
+      throw error;
+    }
+  });
+
+  await test('Reject JSON Filters on Non-JSON Columns', async () => {
+    const filters = [
+      { field: 'name', path: ['x'], operator: 'eq', value: 'a' },
+      { or: [{ field: 'id', operator: 'eq', value: 1 }, { field: 'name', operator: 'contains', value: { a: 1 } }] },
+    ];
+    for (const filter of filters) {
+      try {
+        await client.post('/exports', { format: 'csv', columns: [{ source: 'id', target: 'id' }], filter });
+        throw new Error(`Should have rejected filter ${JSON.stringify(filter)}`);
+      } catch (error) {
+        if (!(error instanceof AxiosError && error.response?.status === 400)) throw error;
+      }
+    }
+  });
+
+  // Background export with a persisted artifact
+  let backgroundExportId = '';
+  await test('Create Background CSV Export Job', async () => {
+    const response = await client.post('/exports', {
+      format: 'csv',
+      columns: [
+        { source: 'id', target: 'id' },
+        { source: 'name', target: 'name' },
+      ],
+      background: true,
+    });
+
+    if (response.status !== 201) throw new Error(`Expected status 201`);
+    backgroundExportId = response.data.exportId;
+  });
+
+  if (backgroundExportId) {
+    await test('Download Background Export Artifact', async () => {
+      // Poll until the worker has materialized the artifact
+      let response = await client.get(`/exports/${backgroundExportId}/download`);
+      for (let attempt = 0; response.status === 202 && attempt < 60; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+        response = await client.get(`/exports/${backgroundExportId}/download`);
+      }
+
+      if (response.status !== 200) throw new Error(`Expected status 200, got ${response.status}`);
+      const contentLength = Number(response.headers['content-length']);
+      if (!contentLength) throw new Error('Missing content-length header');
+      if (Buffer.byteLength(response.data as string) !== contentLength) {
+        throw new Error('Body length does not match content-length');
+      }
+    });
+  }
+
+  if (backgroundExportId) {
+    await test('Resume Background Export with Range Request', async () => {
+      const head = await client.head(`/exports/${backgroundExportId}/download`);
+      if (head.headers['accept-ranges'] !== 'bytes') throw new Error('Expected accept-ranges: bytes');
+      const size = Number(head.headers['content-length']);
+      const etag = head.headers['etag'];
+      if (!size || !etag) throw new Error('Missing content-length or etag');
+
+      const response = await client.get(`/exports/${backgroundExportId}/download`, {
+        headers: { Range: `bytes=${size - 10}-`, 'If-Range': etag },
+      });
+      if (response.status !== 206) throw new Error(`Expected status 206, got ${response.status}`);
+      if (response.headers['content-range'] !== `bytes ${size - 10}-${size - 1}/${size}`) {
+        throw new Error(`Unexpected content-range: ${response.headers['content-range']}`);
+      }
+      if (Number(response.headers['content-length']) !== 10) throw new Error('Expected 10 byte body');
+    });
+  }
+
+  await test('Split Export into Parts', async () => {
+    const created = await client.post('/exports', {
+      format: 'csv',
+      columns: [{ source: 'id', target: 'id' }],
+      filter: { field: 'id', operator: 'lte', value: 25 },
+      split: { maxRows: 10 },
+      background: true,
+    });
+    const exportId = created.data.exportId;
+
+    let manifest = await client.get(`/exports/${exportId}/manifest`);
+    for (let attempt = 0; manifest.status === 202 && attempt < 60; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      manifest = await client.get(`/exports/${exportId}/manifest`);
+    }
+    const counts = manifest.data.parts.map((part: any) => part.rowCount);
+    if (counts.join(',') !== '10,10,5') throw new Error(`Unexpected part row counts: ${counts.join(',')}`);
+
+    const part = await client.get(`/exports/${exportId}/parts/3`, { responseType: 'text' });
+    const lines = part.data.trim().split('\n');
+    if (lines[0] !== 'id' || lines.length !== 6) throw new Error('Expected a header and 5 rows in part 3');
+    const checksum = crypto.createHash('sha256').update(part.data).digest('hex');
+    if (checksum !== manifest.data.parts[2].checksum) throw new Error('Part checksum mismatch');
+  });
+
+  await test('Parallel Snapshot Export', async () => {
+    const created = await client.post('/exports', {
+      format: 'ndjson',
+      columns: [{ source: 'id', target: 'id' }],
+      filter: { field: 'id', operator: 'lte', value: 30 },
+      parallel: { partitions: 3 },
+    });
+    const download = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'text' });
+    const ids = download.data.trim().split('\n').map((line: string) => JSON.parse(line).id);
+    const expected = Array.from({ length: 30 }, (_, i) => String(i + 1));
+    if (ids.join(',') !== expected.join(',')) throw new Error(`Expected ids 1-30 in order, got ${ids.join(',')}`);
+
+    const parts = await client.post('/exports', {
+      format: 'csv',
+      columns: [{ source: 'id', target: 'id' }],
+      filter: { field: 'id', operator: 'lte', value: 30 },
+      parallel: { partitions: 3, output: 'parts' },
+      background: true,
+    });
+    let manifest = await client.get(`/exports/${parts.data.exportId}/manifest`);
+    for (let attempt = 0; manifest.status === 202 && attempt < 60; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      manifest = await client.get(`/exports/${parts.data.exportId}/manifest`);
+    }
+    const counts = manifest.data.parts.map((part: any) => part.rowCount);
+    if (counts.join(',') !== '10,10,10') throw new Error(`Unexpected part row counts: ${counts.join(',')}`);
+  });
+
+  await test('Parallel Export Outlives the Idle Timeout', async () => {
+    // Needs the server started with a short EXPORT_IDLE_IN_TRANSACTION_TIMEOUT_MS, e.g. 2000
+    const idleTimeout = Number(process.env.EXPORT_IDLE_IN_TRANSACTION_TIMEOUT_MS);
+    if (!(idleTimeout > 0 && idleTimeout <= 10000)) {
+      return;
+    }
+    const created = await client.post('/exports', {
+      format: 'ndjson',
+      columns: [{ source: 'id', target: 'id' }, { source: 'metadata', target: 'metadata' }],
+      filter: { field: 'id', operator: 'lte', value: 200000 },
+      parallel: { partitions: 2 },
+    });
+    const response = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'stream' });
+
+    // Stall after the first chunk for longer than the timeout; the second range waits idle meanwhile
+    let lines = 0;
+    let stalled: (() => void) | undefined;
+    const firstChunk = new Promise<void>(resolve => (stalled = resolve));
+    const ended = new Promise((resolve, reject) => {
+      response.data.on('end', resolve);
+      response.data.on('error', reject);
+    });
+    response.data.on('data', (chunk: Buffer) => {
+      if (stalled) {
+        response.data.pause();
+        stalled();
+        stalled = undefined;
+      }
+      lines += chunk.toString().split('\n').length - 1;
+    });
+    await firstChunk;
+    await new Promise(resolve => setTimeout(resolve, idleTimeout * 2));
+    response.data.resume();
+    await ended;
+    if (lines !== 200000) throw new Error(`Expected 200000 rows, got ${lines}`);
+  });
+
+  await test('Export from a Query Dataset', async () => {
+    const datasets = await client.get('/datasets');
+    if (!datasets.data.datasets.some((dataset: any) => dataset.name === 'records')) {
+      throw new Error('Missing built-in records dataset');
+    }
+
+    const adminToken = API_KEY || process.env.DATASET_ADMIN_TOKEN;
+    if (!adminToken) {
+      try {
+        await client.post('/datasets', { name: 'unauthorized', kind: 'table', relation: 'records' });
+        throw new Error('Should have rejected dataset registration without an admin token');
+      } catch (error) {
+        if (error instanceof AxiosError && error.response?.status === 403) {
+          return; // Expected; set DATASET_ADMIN_TOKEN to run the rest of this test
+        }
+        throw error;
+      }
+    }
+
+    const name = `test-dataset-${Date.now()}`;
+    const headers = { Authorization: `Bearer ${adminToken}` };
+    await client.post(
+      '/datasets',
+      {
+        name,
+        kind: 'query',
+        sql: 'SELECT id, value * 2 AS doubled FROM records WHERE id <= $1::bigint',
+        parameters: [{ name: 'max_id', type: 'integer', default: 5 }],
+      },
+      { headers }
+    );
+
+    const created = await client.post('/exports', {
+      format: 'csv',
+      dataset: name,
+      parameters: { max_id: 3 },
+      columns: [{ source: 'id', target: 'id' }, { source: 'doubled', target: 'doubled' }],
+      filter: { field: 'id', operator: 'gte', value: 2 },
+      orderBy: [{ field: 'id' }],
+    });
+    const download = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'text' });
+    const ids = download.data.trim().split('\n').slice(1).map((line: string) => line.split(',')[0]);
+    if (ids.join(',') !== '2,3') throw new Error(`Unexpected ids: ${ids.join(',')}`);
+
+    try {
+      await client.post('/exports', { format: 'csv', dataset: name, columns: [{ source: 'name', target: 'name' }] });
+      throw new Error('Should have rejected a column the dataset does not have');
+    } catch (error) {
+      if (!(error instanceof AxiosError && error.response?.status === 400)) throw error;
+    } finally {
+      await client.delete(`/datasets/${name}`, { headers });
+    }
+
+    // A second statement must be rejected before it ever reaches the database
+    try {
+      await client.post(
+        '/datasets',
+        {
+          name: `${name}-stacked`,
+          kind: 'query',
+          sql: 'SELECT 1) AS x; DELETE FROM records WHERE id < 0; SELECT * FROM (SELECT 1',
+        },
+        { headers }
+      );
+      throw new Error('Should have rejected a query with a second statement');
+    } catch (error) {
+      if (!(error instanceof AxiosError && error.response?.status === 400)) throw error;
+    }
+  });
+
+  await test('Incremental Export Definition', async () => {
+    const name = `test-incremental-${Date.now()}`;
+    const created = await client.post('/definitions', {
+      name,
+      watermarkColumn: 'id',
+      watermark: '10',
+      format: 'ndjson',
+      columns: [{ source: 'id', target: 'id' }],
+      filter: { field: 'id', operator: 'lte', value: 15 },
+    });
+    if (created.status !== 201) throw new Error(`Expected status 201, got ${created.status}`);
+
+    const run = await client.post(`/definitions/${name}/runs`);
+    if (run.data.watermark.from !== '10' || run.data.watermark.to !== '15') {
+      throw new Error(`Unexpected run range: ${JSON.stringify(run.data.watermark)}`);
+    }
+    const download = await client.get(`/exports/${run.data.exportId}/download`, { responseType: 'text' });
+    const ids = download.data.trim().split('\n').map((line: string) => JSON.parse(line).id);
+    if (ids.join(',') !== '11,12,13,14,15') throw new Error(`Unexpected ids: ${ids.join(',')}`);
+
+    let definition = await client.get(`/definitions/${name}`);
+    for (let attempt = 0; definition.data.watermark !== '15' && attempt < 20; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+      definition = await client.get(`/definitions/${name}`);
+    }
+    if (definition.data.watermark !== '15') throw new Error('Watermark was not advanced');
+
+    const next = await client.post(`/definitions/${name}/runs`);
+    const empty = await client.get(`/exports/${next.data.exportId}/download`, { responseType: 'text' });
+    if (empty.data.trim() !== '') throw new Error('Expected no rows past the watermark');
+
+    await client.delete(`/definitions/${name}`);
+  });
+
+  // Job status, listing and cancellation
+  if (csvExportId) {
+    await test('Get Export Job Status', async () => {
+      const response = await client.get(`/exports/${csvExportId}`);
+      if (response.status !== 200) throw new Error(`Expected status 200`);
+      if (response.data.id !== csvExportId) throw new Error('Unexpected job id');
+      if (response.data.status !== 'completed') {
+        throw new Error(`Expected completed status, got ${response.data.status}`);
+      }
+    });
+  }
+
+  await test('List Export Jobs', async () => {
+    const response = await client.get('/exports', { params: { format: 'csv', limit: 2 } });
+    if (response.status !== 200) throw new Error(`Expected status 200`);
+    if (!Array.isArray(response.data.jobs)) throw new Error('Missing jobs array');
+    if (response.data.jobs.length > 2) throw new Error('Limit not applied');
+    if (response.data.jobs.some((job: any) => job.format !== 'csv')) throw new Error('Format filter not applied');
+    if (typeof response.data.total !== 'number') throw new Error('Missing total');
+  });
+
+  if (backgroundExportId) {
+    await test('Stream Export Progress Events', async () => {
+      // The job has finished, so the stream sends its final events and closes
+      const response = await client.get(`/exports/${backgroundExportId}/events`, { responseType: 'text' });
+      if (!String(response.headers['content-type']).includes('text/event-stream')) {
+        throw new Error('Expected text/event-stream content type');
+      }
+      if (!response.data.includes('event: progress')) throw new Error('Missing progress event');
+      if (!response.data.includes('event: completed')) throw new Error('Missing completed event');
+    });
+  }
+
+  await test('Cancel Pending Export Job', async () => {
+    const created = await client.post('/exports', {
+      format: 'xml',
+      columns: [{ source: 'id', target: 'id' }],
+    });
+    const response = await client.delete(`/exports/${created.data.exportId}`);
+    if (response.status !== 200) throw new Error(`Expected status 200`);
+    if (response.data.status !== 'cancelled') throw new Error('Expected cancelled status');
+
+    try {
+      await client.delete(`/exports/${created.data.exportId}`);
+      throw new Error('Should have rejected cancelling twice');
+    } catch (error) {
+      if (error instanceof AxiosError && error.response?.status === 409) {
+        return; // Expected
+      }
+      throw error;
+    }
+  });
+
+  await test('Abandoned Downloads Release Connections', async () => {
+    // More abandoned downloads than the pool has connections
+    let lastExportId = '';
+    for (let i = 0; i < 12; i++) {
+      const created = await client.post('/exports', {
+        format: 'ndjson',
+        columns: [{ source: 'id', target: 'id' }, { source: 'metadata', target: 'metadata' }],
+      });
+      lastExportId = created.data.exportId;
+      const response = await client.get(`/exports/${lastExportId}/download`, { responseType: 'stream' });
+      await new Promise(resolve => response.data.once('data', resolve));
+      response.data.destroy();
+    }
+
+    let job = await client.get(`/exports/${lastExportId}`);
+    for (let attempt = 0; job.data.status === 'in_progress' && attempt < 20; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+      job = await client.get(`/exports/${lastExportId}`);
+    }
+    if (job.data.status !== 'failed') throw new Error(`Expected failed status, got ${job.data.status}`);
+
+    const created = await client.post('/exports', {
+      format: 'csv',
+      columns: [{ source: 'id', target: 'id' }],
+      filter: { field: 'id', operator: 'eq', value: 1 },
+    });
+    const download = await client.get(`/exports/${created.data.exportId}/download`, { responseType: 'text' });
+    if (download.data !== 'id\n1\n') throw new Error(`Unexpected output: ${JSON.stringify(download.data)}`);
+  });
+
+  await test('API Key Permissions', async () => {
+    if (!API_KEY) {
+      return; // Authentication is disabled; set API_KEY (and RESTRICTED_API_KEY) to run this test
+    }
+    const expectStatus = async (request: Promise<unknown>, status: number) => {
+      try {
+        await request;
+        throw new Error(`Should have returned ${status}`);
+      } catch (error) {
+        if (!(error instanceof AxiosError && error.response?.status === status)) throw error;
+      }
+    };
+
+    await expectStatus(axios.get(`${BASE_URL}/exports`), 401);
+    await expectStatus(axios.get(`${BASE_URL}/exports`, { headers: { Authorization: 'Bearer not-a-key' } }), 401);
+
+    // A key limited to id and name on records, without the benchmark scope
+    const restrictedKey = process.env.RESTRICTED_API_KEY;
+    if (!restrictedKey) {
+      return;
+    }
+    const restricted = axios.create({ baseURL: BASE_URL, headers: { Authorization: `Bearer ${restrictedKey}` } });
+    await expectStatus(restricted.post('/exports', { format: 'csv', columns: [{ source: 'value', target: 'value' }] }), 403);
+    await expectStatus(
+      restricted.post('/exports', {
+        format: 'csv',
+        columns: [{ source: 'id', target: 'id' }],
+        filter: { field: 'value', operator: 'gt', value: 0 },
+      }),
+      403
+    );
+    await expectStatus(restricted.get('/exports/benchmark'), 403);
+
+    const own = await restricted.post('/exports', {
+      format: 'csv',
+      columns: [{ source: 'id', target: 'id' }, { source: 'name', target: 'name' }],
+      filter: { field: 'id', operator: 'eq', value: 1 },
+    });
+    const download = await restricted.get(`/exports/${own.data.exportId}/download`, { responseType: 'text' });
+    if (!download.data.startsWith('id,name\n1,')) throw new Error(`Unexpected output: ${JSON.stringify(download.data)}`);
+
+    // Jobs of other keys look like they do not exist
+    const other = await client.post('/exports', { format: 'csv', columns: [{ source: 'id', target: 'id' }] });
+    await expectStatus(restricted.get(`/exports/${other.data.exportId}`), 404);
+    await expectStatus(restricted.get(`/exports/${other.data.exportId}/download`), 404);
+    const listed = await restricted.get('/exports');
+    if (listed.data.jobs.some((job: any) => job.exportId === other.data.exportId)) {
+      throw new Error("Listed another key's export");
+    }
+    await client.delete(`/exports/${other.data.exportId}`);
+  });
+
   // Test 13: Non-existent Export ID
   await test('Handle Non-existent Export ID', async () => {
     try {
@@ -263,10 +1118,12 @@ async function runTests() {
     
     // Verify all formats are present
     const formats = response.data.results.map((r: any) => r.format);
-    const expectedFormats = ['csv', 'json', 'xml', 'parquet'];
+    const expectedFormats = ['csv', 'json', 'ndjson', 'xml', 'parquet', 'xlsx', 'avro'];
     for (const fmt of expectedFormats) {
       if (!formats.includes(fmt)) throw new Error(`Missing format: ${fmt}`);
     }
+    const csv = response.data.results.find((r: any) => r.format === 'csv');
+    if (csv && !['cursor', 'copy'].includes(csv.path)) throw new Error('CSV result is missing its path');
   });
 
   // Print summary
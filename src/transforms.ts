@@ -0,0 +1,221 @@
+import { CastType, ColumnMapping, ColumnTransform } from './types';
+
+const CAST_TYPES: CastType[] = ['string', 'number', 'integer', 'boolean'];
+const TRANSFORM_TYPES: Array<ColumnTransform['type']> = [
+  'cast',
+  'date_format',
+  'round',
+  'lowercase',
+  'uppercase',
+  'coalesce',
+];
+const MAX_ROUND_DIGITS = 10;
+const NUMERIC_DATA_TYPES = ['smallint', 'integer', 'bigint', 'numeric', 'real', 'double precision'];
+const INTEGER_DATA_TYPES = ['smallint', 'integer', 'bigint'];
+const DATE_DATA_TYPES = ['date', 'timestamp with time zone', 'timestamp without time zone'];
+
+// Returns an error message for an invalid path or transform list, or null if the mapping is valid
+export function validateColumnMapping(column: ColumnMapping): string | null {
+  const { path, transforms } = column;
+
+  if (path !== undefined) {
+    if (!Array.isArray(path) || path.length === 0 || !path.every(p => typeof p === 'string' && p.length > 0)) {
+      return `Column path for "${column.target}" must be a non-empty array of strings`;
+    }
+  }
+
+  if (transforms === undefined) {
+    return null;
+  }
+  if (!Array.isArray(transforms)) {
+    return `Column transforms for "${column.target}" must be an array`;
+  }
+
+  for (const transform of transforms as any[]) {
+    if (!transform || !TRANSFORM_TYPES.includes(transform.type)) {
+      return `Invalid transform for "${column.target}". Must be one of: ${TRANSFORM_TYPES.join(', ')}`;
+    }
+    switch (transform.type) {
+      case 'cast':
+        if (!CAST_TYPES.includes(transform.to)) {
+          return `Cast for "${column.target}" must be one of: ${CAST_TYPES.join(', ')}`;
+        }
+        break;
+      case 'date_format':
+        if (typeof transform.format !== 'string' || transform.format.length === 0) {
+          return `date_format for "${column.target}" requires a format string`;
+        }
+        break;
+      case 'round':
+        if (
+          transform.digits !== undefined &&
+          (!Number.isInteger(transform.digits) || transform.digits < 0 || transform.digits > MAX_ROUND_DIGITS)
+        ) {
+          return `round digits for "${column.target}" must be an integer between 0 and ${MAX_ROUND_DIGITS}`;
+        }
+        break;
+      case 'coalesce':
+        if (!['string', 'number', 'boolean'].includes(typeof transform.value)) {
+          return `coalesce for "${column.target}" requires a string, number or boolean value`;
+        }
+        break;
+    }
+  }
+
+  return null;
+}
+
+// Whether the mapping changes the raw column value in any way
+export function isComputedColumn(column: ColumnMapping): boolean {
+  return (column.path !== undefined && column.path.length > 0) ||
+    (column.transforms !== undefined && column.transforms.length > 0);
+}
+
+// Postgres-style data type of a mapping's output after JSONB path extraction and transforms
+export function getComputedDataType(column: ColumnMapping, sourceDataType?: string): string {
+  let dataType = column.path && column.path.length > 0 ? 'text' : sourceDataType ?? 'text';
+
+  for (const transform of column.transforms ?? []) {
+    switch (transform.type) {
+      case 'cast':
+        dataType = { string: 'text', number: 'double precision', integer: 'bigint', boolean: 'boolean' }[transform.to];
+        break;
+      case 'round':
+        dataType = 'double precision';
+        break;
+      case 'date_format':
+        dataType = ['epoch_ms', 'epoch_s'].includes(transform.format) ? 'bigint' : 'text';
+        break;
+      case 'lowercase':
+      case 'uppercase':
+        dataType = 'text';
+        break;
+      case 'coalesce':
+        // Typed writers (Parquet, Avro, XLSX numbers) cannot store a default of another kind
+        if (!isCoalesceValueOfType(transform.value, dataType)) {
+          dataType = 'text';
+        }
+        break;
+    }
+  }
+  return dataType;
+}
+
+function isCoalesceValueOfType(value: string | number | boolean, dataType: string): boolean {
+  if (INTEGER_DATA_TYPES.includes(dataType)) {
+    return Number.isInteger(value);
+  }
+  if (isNumericDataType(dataType)) {
+    return typeof value === 'number';
+  }
+  if (dataType === 'boolean') {
+    return typeof value === 'boolean';
+  }
+  // Date columns hold Date objects, which no JSON default can be
+  return !DATE_DATA_TYPES.includes(dataType);
+}
+
+// PostgreSQL returns NUMERIC and BIGINT as strings, so writers check the column type rather than the value
+export function isNumericDataType(dataType: string): boolean {
+  return NUMERIC_DATA_TYPES.includes(dataType);
+}
+
+export function extractJsonPath(value: any, path: string[]): any {
+  let current = value;
+  for (const key of path) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return null;
+    }
+    current = Array.isArray(current) ? current[Number(key)] : current[key];
+  }
+  return current === undefined ? null : current;
+}
+
+export function applyTransforms(value: any, transforms: ColumnTransform[]): any {
+  let result = value;
+  for (const transform of transforms) {
+    result = applyTransform(result, transform);
+  }
+  return result;
+}
+
+function applyTransform(value: any, transform: ColumnTransform): any {
+  if (transform.type === 'coalesce') {
+    return value === null || value === undefined ? transform.value : value;
+  }
+  // All other transforms propagate NULL
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (transform.type) {
+    case 'cast':
+      return castValue(value, transform.to);
+    case 'date_format':
+      return formatDate(value, transform.format);
+    case 'round': {
+      const num = Number(value);
+      if (Number.isNaN(num)) return null;
+      const factor = Math.pow(10, transform.digits ?? 0);
+      return Math.round(num * factor) / factor;
+    }
+    case 'lowercase':
+      return stringify(value).toLowerCase();
+    case 'uppercase':
+      return stringify(value).toUpperCase();
+  }
+}
+
+function castValue(value: any, to: CastType): any {
+  switch (to) {
+    case 'string':
+      return stringify(value);
+    case 'number': {
+      const num = Number(value);
+      return Number.isNaN(num) ? null : num;
+    }
+    case 'integer': {
+      const num = Number(value);
+      return Number.isNaN(num) ? null : Math.trunc(num);
+    }
+    case 'boolean':
+      if (typeof value === 'string') {
+        return ['true', 't', '1', 'yes', 'y'].includes(value.toLowerCase());
+      }
+      return Boolean(value);
+  }
+}
+
+function stringify(value: any): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatDate(value: any, format: string): string | number | null {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  switch (format) {
+    case 'iso':
+      return date.toISOString();
+    case 'epoch_ms':
+      return date.getTime();
+    case 'epoch_s':
+      return Math.floor(date.getTime() / 1000);
+  }
+
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    SSS: pad(date.getUTCMilliseconds(), 3),
+  };
+  return format.replace(/YYYY|SSS|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
@@ -1,38 +1,379 @@
-export type ExportFormat = 'csv' | 'json' | 'xml' | 'parquet';
-export type CompressionType = 'gzip' | undefined;
+import { ColumnTypeInfo } from './database';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xml' | 'parquet' | 'xlsx' | 'avro';
+export type CompressionType = 'gzip' | 'deflate' | 'brotli' | 'zstd' | 'zip' | undefined;
+
+export type CsvPreset = 'rfc4180' | 'excel' | 'tsv';
+export type CsvDelimiter = 'comma' | 'tab' | 'semicolon' | 'pipe';
+// minimal: only fields that need it; non_numeric: everything except numeric columns
+export type CsvQuoting = 'minimal' | 'all' | 'non_numeric';
+
+export interface CsvOptions {
+  // Starting point for the remaining options
+  preset?: CsvPreset;
+  delimiter?: CsvDelimiter;
+  quote?: string;
+  quoting?: CsvQuoting;
+  lineEnding?: 'lf' | 'crlf';
+  // UTF-8 byte order mark so Excel detects the encoding
+  bom?: boolean;
+  header?: boolean;
+  // Written for NULL; field values equal to it are always quoted
+  nullValue?: string;
+}
+
+export interface XmlOptions {
+  rootElement?: string;
+  rowElement?: string;
+  // Element name for every array item; defaults to item_0, item_1, ...
+  itemElement?: string;
+  // Write scalar columns as attributes of the row element
+  attributes?: boolean;
+  namespace?: string;
+  // Namespace prefix; without one the namespace is the default namespace
+  prefix?: string;
+  // Write NULL as xsi:nil="true" instead of an empty element
+  nil?: boolean;
+}
+
+export interface JsonOptions {
+  // NUMERIC values as strings (default), or as numbers written with their exact digits
+  decimals?: 'string' | 'number';
+  // BIGINT values; most parsers lose precision on numbers beyond 2^53
+  bigints?: 'string' | 'number';
+  // ISO-8601 with a UTC offset (default), or milliseconds since the epoch
+  timestamps?: 'iso' | 'epoch_ms';
+  // Build nested objects from dotted targets, e.g. "meta.category"
+  nest?: boolean;
+}
+
+export interface AvroOptions {
+  // Block compression inside the container file (default null)
+  codec?: 'null' | 'deflate';
+  // Write JSON columns as JSON text, or as nested records inferred from a sample of rows
+  jsonAs?: 'string' | 'record';
+}
+
+// At least one limit is required; a part ends once it reaches either
+export interface SplitOptions {
+  maxRows?: number;
+  // Counted before compression and checked after each batch, so parts can exceed it slightly
+  maxBytes?: number;
+}
+
+// Read id ranges concurrently from one consistent snapshot; rows are always ordered by id
+export interface ParallelOptions {
+  // Number of id ranges, each read on its own database connection
+  partitions: number;
+  // ordered (default): a single output in id order; parts: one part per range, written concurrently
+  output?: 'ordered' | 'parts';
+}
+
+export type CastType = 'string' | 'number' | 'integer' | 'boolean';
+
+export type ColumnTransform =
+  | { type: 'cast'; to: CastType }
+  // Pattern tokens: YYYY, MM, DD, HH, mm, ss, SSS (UTC); or one of iso, epoch_ms, epoch_s
+  | { type: 'date_format'; format: string }
+  | { type: 'round'; digits?: number }
+  | { type: 'lowercase' }
+  | { type: 'uppercase' }
+  | { type: 'coalesce'; value: string | number | boolean };
 
 export interface ColumnMapping {
   source: string;
   target: string;
+  // JSONB path into the source column, e.g. ['tags', '0'] for metadata->'tags'->0
+  path?: string[];
+  // Applied in order after path extraction
+  transforms?: ColumnTransform[];
+}
+
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'in'
+  | 'like'
+  | 'ilike'
+  | 'is_null'
+  | 'is_not_null'
+  | 'contains';
+
+export interface FilterPredicate {
+  field: string;
+  // JSONB path into the field, e.g. ['tags', '0'] for metadata->'tags'->0
+  path?: string[];
+  operator: FilterOperator;
+  value?: any;
+}
+
+export interface FilterGroup {
+  and?: FilterNode[];
+  or?: FilterNode[];
+}
+
+export type FilterNode = FilterPredicate | FilterGroup;
+
+export interface OrderByClause {
+  field: string;
+  direction?: 'asc' | 'desc';
+  nulls?: 'first' | 'last';
 }
 
 export interface ExportJobRequest {
   format: ExportFormat;
+  // Dataset to export from; defaults to the built-in records table
+  dataset?: string;
+  // Values for the dataset's query parameters, by name
+  parameters?: Record<string, DatasetParameterValue>;
   columns: ColumnMapping[];
   compression?: CompressionType;
+  // Codec-specific; defaults to each codec's own default level
+  compressionLevel?: number;
+  filter?: FilterNode;
+  orderBy?: OrderByClause[];
+  csvOptions?: CsvOptions;
+  jsonOptions?: JsonOptions;
+  xmlOptions?: XmlOptions;
+  avroOptions?: AvroOptions;
+  // Write numbered standalone parts instead of one file; requires background
+  split?: SplitOptions;
+  parallel?: ParallelOptions;
+  // Run in the background worker pool and persist the result as an artifact
+  background?: boolean;
+}
+
+export type DatasetKind = 'table' | 'view' | 'query';
+export type DatasetParameterType = 'string' | 'integer' | 'number' | 'boolean' | 'timestamp' | 'date';
+export type DatasetParameterValue = string | number | boolean;
+
+export interface DatasetParameter {
+  name: string;
+  type: DatasetParameterType;
+  // Used when an export omits the parameter; parameters without a default are required
+  default?: DatasetParameterValue;
+}
+
+// A named source of rows that exports can reference instead of the records table
+export interface Dataset {
+  name: string;
+  kind: DatasetKind;
+  // Table or view in the current schema (table and view datasets)
+  relation?: string;
+  // A single SELECT whose $1, $2, ... are bound to parameters in declaration order (query datasets)
+  sql?: string;
+  parameters?: DatasetParameter[];
+  createdAt: Date;
+}
+
+// A dataset resolved for one export
+export interface DatasetSource {
+  name: string;
+  // FROM item: a quoted table or view name, or the dataset query as an aliased subquery
+  from: string;
+  // Bound to the query's placeholders; filter values are numbered after them
+  params: any[];
+  columnTypes: Record<string, ColumnTypeInfo>;
+}
+
+// Monotonic, indexed columns that incremental exports can track
+export type WatermarkColumn = 'id' | 'created_at';
+
+/**
+ * A named export that remembers how far it has exported. Watermarks are kept as
+ * PostgreSQL text (e.g. "2024-01-15 10:30:00.123456+00") so no precision is lost.
+ */
+export interface ExportDefinition {
+  name: string;
+  watermarkColumn: WatermarkColumn;
+  // Highest value exported by the last successful run; null exports from the beginning
+  watermark: string | null;
+  request: ExportJobRequest;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Rows a definition run covers: watermarkColumn > from (if set) and <= to
+export interface ExportWatermarkRange {
+  definition: string;
+  column: WatermarkColumn;
+  from: string | null;
+  // null when there were no rows past from
+  to: string | null;
+  // The definition's watermark when the run started; differs from `from` when replaying
+  previous: string | null;
+}
+
+export interface ExportArtifact {
+  path: string;
+  sizeBytes: number;
+  rowCount: number;
+  // Hex-encoded SHA-256 of the stored (possibly compressed) file
+  checksum: string;
+  // Split exports: path and checksum are those of the manifest, sizeBytes the total of the parts
+  parts?: ExportArtifactPart[];
+}
+
+export interface ExportArtifactPart {
+  path: string;
+  // Position of the part's first row in the whole export
+  rowOffset: number;
+  rowCount: number;
+  sizeBytes: number;
+  checksum: string;
+}
+
+export interface ExportManifest {
+  exportId: string;
+  format: ExportFormat;
+  compression?: CompressionType;
+  rowCount: number;
+  sizeBytes: number;
+  parts: Array<Omit<ExportArtifactPart, 'path'> & { part: number; filename: string }>;
+}
+
+export interface ExportProgress {
+  rowsWritten: number;
+  bytesWritten: number;
+  elapsedMs: number;
+  // Rows the export is expected to produce, once counted
+  totalRows?: number;
+  updatedAt: Date;
+}
+
+export type ExportJobStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportJobListQuery {
+  owner?: string;
+  status?: ExportJobStatus;
+  format?: ExportFormat;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface ExportJobListResult {
+  jobs: ExportJob[];
+  total: number;
 }
 
 export interface ExportJob {
   id: string;
   format: ExportFormat;
+  dataset?: string;
+  parameters?: Record<string, DatasetParameterValue>;
   columns: ColumnMapping[];
   compression?: CompressionType;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  compressionLevel?: number;
+  filter?: FilterNode;
+  orderBy?: OrderByClause[];
+  csvOptions?: CsvOptions;
+  jsonOptions?: JsonOptions;
+  xmlOptions?: XmlOptions;
+  avroOptions?: AvroOptions;
+  split?: SplitOptions;
+  parallel?: ParallelOptions;
+  background?: boolean;
+  // Set for runs of an export definition
+  watermark?: ExportWatermarkRange;
+  // Id of the API key that created the job; unset when authentication is disabled
+  owner?: string;
+  artifact?: ExportArtifact;
+  progress?: ExportProgress;
+  status: ExportJobStatus;
   createdAt: Date;
+  startedAt?: Date;
+  // Last lease renewal by the worker running the job; set when it moves to in_progress
+  heartbeatAt?: Date;
   completedAt?: Date;
   error?: string;
 }
 
+export interface ExportJobStore {
+  // Prepare backing storage (e.g. create tables); safe to call more than once
+  initialize(): Promise<void>;
+  // watermark is set for runs of an export definition
+  createJob(request: ExportJobRequest, watermark?: ExportWatermarkRange, owner?: string): Promise<ExportJob>;
+  getJob(id: string): Promise<ExportJob | undefined>;
+  updateJobStatus(id: string, status: ExportJobStatus, error?: string): Promise<void>;
+  // Atomically move a job to a new status only if it is currently in one of the expected statuses
+  transitionJobStatus(
+    id: string,
+    from: ExportJobStatus[],
+    to: ExportJobStatus,
+    error?: string
+  ): Promise<boolean>;
+  setJobArtifact(id: string, artifact: ExportArtifact): Promise<void>;
+  setJobProgress(id: string, progress: ExportProgress): Promise<void>;
+  deleteJob(id: string): Promise<void>;
+  getAllJobs(): Promise<ExportJob[]>;
+  // Extend the lease of a running job; false once it is no longer in_progress
+  renewJobLease(id: string): Promise<boolean>;
+  // Background jobs a worker may claim, oldest first: pending ones and in_progress ones whose lease
+  // was last renewed before leaseExpiredBefore
+  listClaimableJobs(leaseExpiredBefore: Date, limit: number): Promise<ExportJob[]>;
+  // Atomically move an in_progress job back to pending only if its lease is still expired
+  releaseExpiredJob(id: string, leaseExpiredBefore: Date): Promise<boolean>;
+  // Newest jobs first
+  listJobs(query: ExportJobListQuery): Promise<ExportJobListResult>;
+  // Resolves undefined if a definition with the same name exists
+  createDefinition(
+    definition: Omit<ExportDefinition, 'createdAt' | 'updatedAt'>
+  ): Promise<ExportDefinition | undefined>;
+  getDefinition(name: string): Promise<ExportDefinition | undefined>;
+  listDefinitions(): Promise<ExportDefinition[]>;
+  deleteDefinition(name: string): Promise<boolean>;
+  setDefinitionWatermark(name: string, watermark: string | null): Promise<ExportDefinition | undefined>;
+  // Atomically move the watermark from one value to the next; false if it no longer has the expected value
+  advanceDefinitionWatermark(name: string, from: string | null, to: string): Promise<boolean>;
+  // Resolves undefined if a dataset with the same name exists
+  createDataset(dataset: Omit<Dataset, 'createdAt'>): Promise<Dataset | undefined>;
+  getDataset(name: string): Promise<Dataset | undefined>;
+  listDatasets(): Promise<Dataset[]>;
+  deleteDataset(name: string): Promise<boolean>;
+}
+
+export type ApiKeyScope = 'exports:create' | 'exports:download' | 'benchmark' | 'admin';
+
+// An API key from API_KEYS_FILE; only the SHA-256 of the key itself is configured
+export interface ApiKey {
+  id: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  // Columns the key may export, filter and sort on, per dataset; "*" as a name or list allows all
+  datasets: Record<string, string[] | '*'>;
+}
+
+// How a CSV export reads its rows: through a cursor and the CSV serializer, or as COPY output
+export type CsvExportPath = 'cursor' | 'copy';
+
 export interface BenchmarkResult {
   format: ExportFormat;
+  path?: CsvExportPath;
   durationSeconds: number;
   fileSizeBytes: number;
   peakMemoryMB: number;
 }
 
+// The same CSV export through both paths, over the columns COPY can write
+export interface CsvPathComparison {
+  columns: string[];
+  cursor: BenchmarkResult;
+  copy: BenchmarkResult;
+  speedup: number;
+}
+
 export interface BenchmarkResponse {
+  dataset: string;
   datasetRowCount: number;
   results: BenchmarkResult[];
+  csvPaths?: CsvPathComparison;
 }
 
 export interface ExportResponse {
@@ -40,8 +381,35 @@ export interface ExportResponse {
   status: string;
 }
 
+export interface ExportStats {
+  rowCount: number;
+}
+
+export interface ExportProgressStats {
+  rowCount: number;
+  byteCount: number;
+}
+
 export interface StreamExporterOptions {
+  dataset: DatasetSource;
   columns: ColumnMapping[];
   compression?: CompressionType;
+  filter?: FilterNode;
+  orderBy?: OrderByClause[];
+  csvOptions?: CsvOptions;
+  jsonOptions?: JsonOptions;
+  xmlOptions?: XmlOptions;
+  avroOptions?: AvroOptions;
+  parallel?: ParallelOptions;
   rowLimit?: number;
+  // CSV exports stream COPY output when no column needs rendering in JS; false forces the cursor path
+  csvCopy?: boolean;
+  // Aborting stops fetching, rolls back the cursor transaction and releases the client
+  signal?: AbortSignal;
+  // Called by exporters after each batch with the cumulative number of rows written
+  onRows?: (rowCount: number) => void;
+  // Rows and bytes emitted so far; bytes are counted as the consumer reads them
+  onProgress?: (stats: ExportProgressStats) => void;
+  // Called once all rows have been written, before the stream ends
+  onComplete?: (stats: ExportStats) => void;
 }
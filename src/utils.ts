@@ -1,13 +1,5 @@
-import { Transform } from 'stream';
-import * as zlib from 'zlib';
-import { CompressionType } from './types';
-
-export function createGzipTransform(compression?: CompressionType): Transform | null {
-  if (compression === 'gzip') {
-    return zlib.createGzip({ level: zlib.Z_DEFAULT_COMPRESSION });
-  }
-  return null;
-}
+import { ColumnMapping } from './types';
+import { applyTransforms, extractJsonPath } from './transforms';
 
 export function flattenJsonValue(value: any): string {
   if (value === null || value === undefined) {
@@ -19,13 +11,51 @@ export function flattenJsonValue(value: any): string {
   return String(value);
 }
 
-export function escapeCsvValue(value: string): string {
-  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-    return '"' + value.replace(/"/g, '""') + '"';
+export function escapeCsvValue(value: string, delimiter = ',', quote = '"'): string {
+  if (value.includes(delimiter) || value.includes(quote) || value.includes('\n') || value.includes('\r')) {
+    return quoteCsvValue(value, quote);
   }
   return value;
 }
 
+export function quoteCsvValue(value: string, quote = '"'): string {
+  return quote + value.split(quote).join(quote + quote) + quote;
+}
+
+// Smallest number of bytes able to hold a two's complement integer of the given decimal precision
+export function getDecimalByteLength(precision: number): number {
+  return Math.ceil((precision * Math.log2(10) + 1) / 8);
+}
+
+// Encode a NUMERIC value as a big-endian two's complement unscaled integer
+export function encodeDecimal(value: any, scale: number, byteLength: number): Buffer {
+  const text = String(value).trim();
+  const negative = text.startsWith('-');
+  const [integerPart, fractionPart = ''] = text.replace(/^[-+]/, '').split('.');
+  const digits = (integerPart || '0') + fractionPart.padEnd(scale, '0').slice(0, scale);
+
+  let unscaled = BigInt(digits);
+  if (negative) {
+    unscaled = (BigInt(1) << BigInt(byteLength * 8)) - unscaled;
+  }
+
+  const buf = Buffer.alloc(byteLength);
+  for (let i = byteLength - 1; i >= 0; i--) {
+    buf[i] = Number(unscaled & BigInt(0xff));
+    unscaled >>= BigInt(8);
+  }
+  return buf;
+}
+
+export function quoteIdentifier(identifier: string): string {
+  return '"' + identifier.replace(/"/g, '""') + '"';
+}
+
+// For statements that take no bind parameters, e.g. SET TRANSACTION SNAPSHOT
+export function quoteLiteral(value: string): string {
+  return "'" + value.replace(/'/g, "''") + "'";
+}
+
 export function sanitizeXmlValue(value: string): string {
   return value
     .replace(/&/g, '&amp;')
@@ -44,14 +74,62 @@ export function sanitizeXmlTag(tag: string): string {
   return sanitized;
 }
 
-export function selectColumns(row: any, columns: Array<{ source: string; target: string }>): Record<string, any> {
+export interface SelectOptions {
+  // Build nested objects from dotted targets, e.g. "meta.category" → { meta: { category } }
+  nest?: boolean;
+  // Called with each value after its transforms, and the index of its column
+  encode?: (value: any, index: number) => any;
+}
+
+export function selectColumns(
+  row: any,
+  columns: ColumnMapping[],
+  options: SelectOptions = {}
+): Record<string, any> {
+  const { nest, encode } = options;
   const result: Record<string, any> = {};
-  for (const { source, target } of columns) {
-    result[target] = row[source];
-  }
+  columns.forEach(({ source, target, path, transforms }, index) => {
+    let value = row[source];
+    if (path && path.length > 0) {
+      value = extractJsonPath(value, path);
+    }
+    if (transforms && transforms.length > 0) {
+      value = applyTransforms(value, transforms);
+    }
+    if (encode) {
+      value = encode(value, index);
+    }
+    if (nest && target.includes('.')) {
+      setNestedValue(result, target.split('.'), value);
+    } else {
+      result[target] = value;
+    }
+  });
   return result;
 }
 
+function setNestedValue(obj: Record<string, any>, keys: string[], value: any): void {
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== 'object' || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+// DATE values are parsed by pg as local midnight
+export function formatLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Days since the Unix epoch of a DATE value's calendar day
+export function getLocalEpochDay(date: Date): number {
+  return Math.floor((date.getTime() - date.getTimezoneOffset() * 60000) / 86400000);
+}
+
 export async function getMemoryUsageMB(): Promise<number> {
   const memUsage = process.memoryUsage();
   return Math.round((memUsage.heapUsed / 1024 / 1024) * 100) / 100;
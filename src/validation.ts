@@ -0,0 +1,261 @@
+import { ExportFormat, ExportJobRequest } from './types';
+import { DEFAULT_DATASET, getDataset, resolveDataset, validateDatasetParameters } from './datasets';
+import { validateColumnMapping } from './transforms';
+import { validateCompression } from './compression';
+import {
+  validateFilter,
+  validateFilterColumnTypes,
+  validateOrderBy,
+  findUnknownColumns,
+  getReferencedFields,
+} from './query';
+import { validateSplitOptions } from './exporters/pipeline';
+import { validateCsvOptions } from './exporters/csv';
+import { validateJsonOptions } from './exporters/json';
+import { validateXmlColumns, validateXmlOptions } from './exporters/xml';
+import { validateAvroOptions } from './exporters/avro';
+import { PARALLEL_ID_TYPES, validateParallelOptions } from './exporters/parallel';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson', 'xml', 'parquet', 'xlsx', 'avro'];
+
+// Body of a 400 response for an invalid export request
+export interface ExportRequestError {
+  error: string;
+  validColumns?: string[];
+}
+
+// Validate format
+export function isValidFormat(format: any): format is ExportFormat {
+  return EXPORT_FORMATS.includes(format);
+}
+
+// The export settings of a request body, without any unrelated properties
+export function toExportJobRequest(body: any): ExportJobRequest {
+  const {
+    format,
+    dataset,
+    parameters,
+    columns,
+    compression,
+    compressionLevel,
+    filter,
+    orderBy,
+    csvOptions,
+    jsonOptions,
+    xmlOptions,
+    avroOptions,
+    split,
+    parallel,
+    background,
+  } = body ?? {};
+  return {
+    format,
+    dataset,
+    parameters,
+    columns,
+    compression,
+    compressionLevel,
+    filter,
+    orderBy,
+    csvOptions,
+    jsonOptions,
+    xmlOptions,
+    avroOptions,
+    split,
+    parallel,
+    background,
+  };
+}
+
+// Check an export request against the request rules and its dataset's columns
+export async function validateExportRequest(request: ExportJobRequest): Promise<ExportRequestError | null> {
+  const {
+    format,
+    dataset,
+    parameters,
+    columns,
+    compression,
+    compressionLevel,
+    filter,
+    orderBy,
+    csvOptions,
+    jsonOptions,
+    xmlOptions,
+    avroOptions,
+    split,
+    parallel,
+    background,
+  } = request;
+
+  if (!format || !isValidFormat(format)) {
+    return {
+      error: `Invalid or missing format. Must be one of: ${EXPORT_FORMATS.join(', ')}`,
+    };
+  }
+
+  if (!Array.isArray(columns) || columns.length === 0) {
+    return {
+      error: 'Columns must be a non-empty array',
+    };
+  }
+
+  // Validate column mappings
+  for (const col of columns) {
+    if (typeof col.source !== 'string' || !col.source || typeof col.target !== 'string' || !col.target) {
+      return {
+        error: 'Each column must have source and target properties',
+      };
+    }
+    const mappingError = validateColumnMapping(col);
+    if (mappingError) {
+      return { error: mappingError };
+    }
+  }
+
+  const compressionError = validateCompression(compression, compressionLevel);
+  if (compressionError) {
+    return { error: compressionError };
+  }
+
+  if (background !== undefined && typeof background !== 'boolean') {
+    return {
+      error: 'Invalid background flag. Must be a boolean',
+    };
+  }
+
+  if (split !== undefined) {
+    const splitError = validateSplitOptions(split);
+    if (splitError) {
+      return { error: splitError };
+    }
+    // Parts are separate files, so they have to be materialized first
+    if (background !== true) {
+      return { error: 'split requires background: true' };
+    }
+  }
+
+  if (parallel !== undefined) {
+    const parallelError = validateParallelOptions(parallel);
+    if (parallelError) {
+      return { error: parallelError };
+    }
+    if (orderBy !== undefined) {
+      return { error: 'parallel exports are ordered by id and do not accept orderBy' };
+    }
+    if (parallel.output === 'parts') {
+      if (split !== undefined) {
+        return { error: 'parallel parts output cannot be combined with split' };
+      }
+      if (background !== true) {
+        return { error: 'parallel parts output requires background: true' };
+      }
+    }
+  }
+
+  if (filter !== undefined) {
+    const filterError = validateFilter(filter);
+    if (filterError) {
+      return { error: filterError };
+    }
+  }
+
+  if (orderBy !== undefined) {
+    const orderByError = validateOrderBy(orderBy);
+    if (orderByError) {
+      return { error: orderByError };
+    }
+  }
+
+  if (csvOptions !== undefined) {
+    if (format !== 'csv') {
+      return { error: 'csvOptions are only valid for the csv format' };
+    }
+    const csvError = validateCsvOptions(csvOptions);
+    if (csvError) {
+      return { error: csvError };
+    }
+  }
+
+  if (jsonOptions !== undefined) {
+    if (format !== 'json' && format !== 'ndjson') {
+      return { error: 'jsonOptions are only valid for the json and ndjson formats' };
+    }
+    const jsonError = validateJsonOptions(jsonOptions, columns);
+    if (jsonError) {
+      return { error: jsonError };
+    }
+  }
+
+  if (format === 'xml') {
+    const xmlColumnsError = validateXmlColumns(columns);
+    if (xmlColumnsError) {
+      return { error: xmlColumnsError };
+    }
+  }
+
+  if (xmlOptions !== undefined) {
+    if (format !== 'xml') {
+      return { error: 'xmlOptions are only valid for the xml format' };
+    }
+    const xmlError = validateXmlOptions(xmlOptions);
+    if (xmlError) {
+      return { error: xmlError };
+    }
+  }
+
+  if (avroOptions !== undefined) {
+    if (format !== 'avro') {
+      return { error: 'avroOptions are only valid for the avro format' };
+    }
+    const avroError = validateAvroOptions(avroOptions);
+    if (avroError) {
+      return { error: avroError };
+    }
+  }
+
+  if (dataset !== undefined && typeof dataset !== 'string') {
+    return { error: 'dataset must be a string' };
+  }
+  const definition = await getDataset(dataset ?? DEFAULT_DATASET);
+  if (!definition) {
+    return { error: `Unknown dataset: ${dataset}` };
+  }
+  const parametersError = validateDatasetParameters(definition, parameters);
+  if (parametersError) {
+    return { error: parametersError };
+  }
+
+  // Every referenced column must exist in the dataset
+  const { columnTypes } = await resolveDataset(definition.name, parameters);
+  const validColumns = Object.keys(columnTypes);
+  const unknownColumns = findUnknownColumns(
+    [...columns.map(col => col.source), ...getReferencedFields(filter, orderBy)],
+    validColumns
+  );
+  if (unknownColumns.length > 0) {
+    return {
+      error: `Unknown column(s): ${unknownColumns.join(', ')}`,
+      validColumns,
+    };
+  }
+
+  // Partitions are id ranges
+  if (parallel !== undefined && !PARALLEL_ID_TYPES.includes(columnTypes.id?.dataType)) {
+    return { error: 'parallel exports require an integer id column' };
+  }
+
+  // JSONB paths can only be followed into json/jsonb columns
+  for (const col of columns) {
+    if (col.path && !['json', 'jsonb'].includes(columnTypes[col.source].dataType)) {
+      return {
+        error: `Column "${col.source}" is not a JSON column and cannot be used with a path`,
+      };
+    }
+  }
+  const filterTypeError = validateFilterColumnTypes(filter, columnTypes);
+  if (filterTypeError) {
+    return { error: filterTypeError };
+  }
+
+  return null;
+}
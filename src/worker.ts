@@ -0,0 +1,321 @@
+import { Transform, TransformCallback, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  ExportArtifact,
+  ExportArtifactPart,
+  ExportJob,
+  ExportManifest,
+  ExportProgressStats,
+  StreamExporterOptions,
+} from './types';
+import { jobStore } from './store';
+import { createExportStream, getFileExtension, runSplitExport } from './exporters';
+import { createCompressionTransform, getCompressionSuffix } from './compression';
+import { registerActiveExport, unregisterActiveExport } from './cancellation';
+import { ExportProgressReporter } from './progress';
+import { completeDefinitionRun } from './definitions';
+import { resolveDataset } from './datasets';
+
+export function getArtifactDir(): string {
+  return process.env.EXPORT_ARTIFACT_DIR || path.join(os.tmpdir(), 'polystream-artifacts');
+}
+
+export function getArtifactPath(job: ExportJob): string {
+  const suffix = getCompressionSuffix(job.compression);
+  return path.join(getArtifactDir(), `export_${job.id}.${getFileExtension(job.format)}${suffix}`);
+}
+
+// File name of a split export's part without extension, e.g. export_<id>_part00001
+export function getPartBaseName(jobId: string, part: number): string {
+  return `export_${jobId}_part${String(part).padStart(5, '0')}`;
+}
+
+function getPartPath(job: ExportJob, part: number): string {
+  const suffix = getCompressionSuffix(job.compression);
+  return path.join(getArtifactDir(), `${getPartBaseName(job.id, part)}.${getFileExtension(job.format)}${suffix}`);
+}
+
+function getManifestPath(job: ExportJob): string {
+  return path.join(getArtifactDir(), `export_${job.id}_manifest.json`);
+}
+
+// Pass-through that hashes and measures everything written to the artifact file
+class ArtifactDigest extends Transform {
+  private hash = crypto.createHash('sha256');
+  sizeBytes = 0;
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hash.update(chunk);
+    this.sizeBytes += chunk.length;
+    callback(null, chunk);
+  }
+
+  digest(): string {
+    return this.hash.digest('hex');
+  }
+}
+
+// Compress and store one output file; only fully written files ever appear under the final name
+async function writeArtifactFile(
+  job: ExportJob,
+  source: Readable,
+  filePath: string,
+  signal?: AbortSignal
+): Promise<{ sizeBytes: number; checksum: string }> {
+  const tempPath = `${filePath}.partial`;
+  const stages: Array<Readable | Transform> = [source];
+  const compressor = createCompressionTransform(
+    job.compression,
+    job.compressionLevel,
+    path.basename(filePath, getCompressionSuffix(job.compression))
+  );
+  if (compressor) {
+    stages.push(compressor);
+  }
+  const digest = new ArtifactDigest();
+
+  try {
+    await pipeline([...stages, digest, fs.createWriteStream(tempPath)], { signal });
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+  return { sizeBytes: digest.sizeBytes, checksum: digest.digest() };
+}
+
+// Run one export to completion and write it to the artifact directory
+export async function materializeExport(
+  job: ExportJob,
+  signal?: AbortSignal,
+  onProgress?: (stats: ExportProgressStats) => void
+): Promise<ExportArtifact> {
+  await fs.promises.mkdir(getArtifactDir(), { recursive: true });
+  if (hasParts(job)) {
+    return materializeSplitExport(job, signal, onProgress);
+  }
+
+  let rowCount = 0;
+  const artifactPath = getArtifactPath(job);
+  const dataStream = await createExportStream(job.format, {
+    ...(await getExporterOptions(job)),
+    signal,
+    onProgress,
+    onComplete: stats => {
+      rowCount = stats.rowCount;
+    },
+  });
+  const { sizeBytes, checksum } = await writeArtifactFile(job, dataStream, artifactPath, signal);
+
+  return {
+    path: artifactPath,
+    sizeBytes,
+    rowCount,
+    checksum,
+  };
+}
+
+async function materializeSplitExport(
+  job: ExportJob,
+  signal?: AbortSignal,
+  onProgress?: (stats: ExportProgressStats) => void
+): Promise<ExportArtifact> {
+  const files: Array<{ path: string; sizeBytes: number; checksum: string }> = [];
+  try {
+    const ranges = await runSplitExport(
+      job.format,
+      { ...(await getExporterOptions(job)), signal, onProgress },
+      job.split,
+      async (index, output) => {
+        // Parallel parts finish in any order
+        const partPath = getPartPath(job, index);
+        files[index - 1] = { path: partPath, ...(await writeArtifactFile(job, output, partPath, signal)) };
+      }
+    );
+    const parts: ExportArtifactPart[] = ranges.map((range, i) => ({
+      path: files[i].path,
+      ...range,
+      sizeBytes: files[i].sizeBytes,
+      checksum: files[i].checksum,
+    }));
+
+    const artifact: ExportArtifact = {
+      path: getManifestPath(job),
+      sizeBytes: parts.reduce((total, part) => total + part.sizeBytes, 0),
+      rowCount: parts.reduce((total, part) => total + part.rowCount, 0),
+      checksum: '',
+      parts,
+    };
+    const manifest = JSON.stringify(buildManifest(job, artifact), null, 2);
+    await fs.promises.writeFile(artifact.path, manifest);
+    artifact.checksum = crypto.createHash('sha256').update(manifest).digest('hex');
+    return artifact;
+  } catch (error) {
+    // Parts of an incomplete export are never served
+    await Promise.all(files.filter(Boolean).map(file => fs.promises.rm(file.path, { force: true })));
+    throw error;
+  }
+}
+
+// Split exports and parallel exports with parts output are stored as numbered parts with a manifest
+export function hasParts(job: ExportJob): boolean {
+  return job.split !== undefined || job.parallel?.output === 'parts';
+}
+
+// The manifest of a split export, as stored next to its parts and served by the API
+export function buildManifest(job: ExportJob, artifact: ExportArtifact): ExportManifest {
+  return {
+    exportId: job.id,
+    format: job.format,
+    compression: job.compression,
+    rowCount: artifact.rowCount,
+    sizeBytes: artifact.sizeBytes,
+    parts: (artifact.parts ?? []).map(({ path: partPath, ...part }, i) => ({
+      part: i + 1,
+      filename: path.basename(partPath),
+      ...part,
+    })),
+  };
+}
+
+async function getExporterOptions(job: ExportJob): Promise<StreamExporterOptions> {
+  return {
+    dataset: await resolveDataset(job.dataset, job.parameters),
+    columns: job.columns,
+    compression: job.compression,
+    filter: job.filter,
+    orderBy: job.orderBy,
+    csvOptions: job.csvOptions,
+    jsonOptions: job.jsonOptions,
+    xmlOptions: job.xmlOptions,
+    avroOptions: job.avroOptions,
+    parallel: job.parallel,
+  };
+}
+
+// Background jobs fetched per sweep of the store
+const CLAIM_BATCH_SIZE = 100;
+
+/**
+ * Runs background export jobs with bounded concurrency. Jobs are claimed through
+ * the store with an atomic pending → in_progress transition, so when several
+ * replicas share a PostgreSQL store each job is executed exactly once. A running
+ * job renews its lease every third of leaseMs; a job whose lease expired, because
+ * the process running it died, is moved back to pending and claimed again.
+ */
+export class ExportWorkerPool {
+  private queue: string[] = [];
+  private running = 0;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly leaseMs: number
+  ) {}
+
+  // Pick up pending background jobs and ones abandoned by a crashed worker, now and every leaseMs
+  async start(): Promise<void> {
+    await this.sweep();
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => {
+        this.sweep().catch(error => console.error('Error checking for claimable background exports:', error));
+      }, this.leaseMs);
+      this.sweepTimer.unref();
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    const leaseExpiredBefore = new Date(Date.now() - this.leaseMs);
+    for (const job of await jobStore.listClaimableJobs(leaseExpiredBefore, CLAIM_BATCH_SIZE)) {
+      if (job.status === 'in_progress') {
+        if (!(await jobStore.releaseExpiredJob(job.id, leaseExpiredBefore))) {
+          continue;
+        }
+        console.log(`Requeueing background export ${job.id}: its worker stopped renewing the lease`);
+      }
+      if (!this.queue.includes(job.id)) {
+        this.enqueue(job.id);
+      }
+    }
+  }
+
+  enqueue(jobId: string): void {
+    this.queue.push(jobId);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const jobId = this.queue.shift() as string;
+      this.running++;
+      this.runJob(jobId)
+        .catch(error => console.error(`Error running background export ${jobId}:`, error))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    const claimed = await jobStore.transitionJobStatus(jobId, ['pending'], 'in_progress');
+    if (!claimed) {
+      // Already taken by another worker or replica
+      return;
+    }
+
+    const job = await jobStore.getJob(jobId);
+    if (!job) {
+      return;
+    }
+
+    const controller = registerActiveExport(jobId);
+    const lease = setInterval(() => {
+      jobStore
+        .renewJobLease(jobId)
+        .then(held => {
+          // Requeued after missed renewals; another worker owns the job now
+          if (!held && !controller.signal.aborted) {
+            console.log(`Background export ${jobId} lost its lease; aborting`);
+            controller.abort();
+          }
+        })
+        .catch(error => console.error(`Error renewing lease of background export ${jobId}:`, error));
+    }, this.leaseMs / 3);
+    lease.unref();
+    const reporter = new ExportProgressReporter(job);
+    reporter.start(controller.signal);
+    try {
+      console.log(`Running background export ${jobId} (${job.format})`);
+      const artifact = await materializeExport(job, controller.signal, stats => reporter.update(stats));
+      await reporter.finish();
+      await jobStore.setJobArtifact(jobId, artifact);
+      // A cancellation that raced with completion wins
+      if (await jobStore.transitionJobStatus(jobId, ['in_progress'], 'completed')) {
+        await completeDefinitionRun(job);
+      }
+      console.log(`Background export ${jobId} completed: ${artifact.rowCount} rows, ${artifact.sizeBytes} bytes`);
+    } catch (error) {
+      await reporter.finish();
+      if (controller.signal.aborted) {
+        console.log(`Background export ${jobId} cancelled`);
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Background export ${jobId} failed:`, error);
+      await jobStore.transitionJobStatus(jobId, ['in_progress'], 'failed', message);
+    } finally {
+      clearInterval(lease);
+      unregisterActiveExport(jobId, controller);
+    }
+  }
+}
+
+export const exportWorkerPool = new ExportWorkerPool(
+  Math.max(1, Math.floor(Number(process.env.EXPORT_WORKER_CONCURRENCY || 2))),
+  Math.max(3000, Number(process.env.EXPORT_JOB_LEASE_MS || 60000))
+);
@@ -0,0 +1,238 @@
+import * as zlib from 'zlib';
+import { once } from 'events';
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const ZIP_VERSION = 20;
+const ZIP64_VERSION = 45;
+// Sizes and CRC follow the data (bit 3); names are UTF-8 (bit 11)
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const METHOD_DEFLATE = 8;
+const MAX_ZIP32 = 0xffffffff;
+const MAX_ZIP32_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+export function crc32(buf: Buffer, previous = 0): number {
+  let crc = previous ^ -1;
+  for (let i = 0; i < buf.length; i++) {
+    crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+interface ZipEntryRecord {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+/**
+ * Writes a deflated zip archive incrementally. Entry sizes and CRCs go into data
+ * descriptors after each entry, so nothing is buffered beyond zlib's own window.
+ * Sizes and offsets past 4 GB use ZIP64 records, added only where they are needed,
+ * so small archives stay plain zip files.
+ */
+export class ZipWriter {
+  private readonly entries: ZipEntryRecord[] = [];
+  private offset = 0;
+  private current: { record: ZipEntryRecord; deflate: zlib.DeflateRaw; done: Promise<void> } | null = null;
+
+  constructor(
+    private readonly output: (chunk: Buffer) => void,
+    private readonly level: number = zlib.constants.Z_DEFAULT_COMPRESSION
+  ) {}
+
+  startEntry(name: string): void {
+    if (this.current) {
+      throw new Error('Previous zip entry has not been ended');
+    }
+
+    const record: ZipEntryRecord = {
+      name: Buffer.from(name, 'utf8'),
+      offset: this.offset,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      ...toDosDateTime(new Date()),
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6);
+    header.writeUInt16LE(METHOD_DEFLATE, 8);
+    header.writeUInt16LE(record.dosTime, 10);
+    header.writeUInt16LE(record.dosDate, 12);
+    // CRC and sizes (14-25) stay zero; they are in the data descriptor
+    header.writeUInt16LE(record.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    this.emit(Buffer.concat([header, record.name]));
+
+    const deflate = zlib.createDeflateRaw({ level: this.level });
+    deflate.on('data', (chunk: Buffer) => {
+      record.compressedSize += chunk.length;
+      this.emit(chunk);
+    });
+    const done = new Promise<void>((resolve, reject) => {
+      deflate.on('end', resolve);
+      deflate.on('error', reject);
+    });
+    this.current = { record, deflate, done };
+  }
+
+  async write(data: string | Buffer): Promise<void> {
+    const entry = this.getCurrentEntry();
+    const buf = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+    if (buf.length === 0) {
+      return;
+    }
+    entry.record.crc = crc32(buf, entry.record.crc);
+    entry.record.size += buf.length;
+    if (!entry.deflate.write(buf)) {
+      await once(entry.deflate, 'drain');
+    }
+  }
+
+  async endEntry(): Promise<void> {
+    const { record, deflate, done } = this.getCurrentEntry();
+    deflate.end();
+    await done;
+    this.current = null;
+
+    // The sizes were unknown when the local header was written, so readers tell a ZIP64
+    // descriptor (8-byte sizes) from the data they inflated; the central directory agrees
+    const descriptor = Buffer.alloc(isZip64Size(record) ? 24 : 16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    if (isZip64Size(record)) {
+      descriptor.writeBigUInt64LE(BigInt(record.compressedSize), 8);
+      descriptor.writeBigUInt64LE(BigInt(record.size), 16);
+    } else {
+      descriptor.writeUInt32LE(record.compressedSize, 8);
+      descriptor.writeUInt32LE(record.size, 12);
+    }
+    this.emit(descriptor);
+    this.entries.push(record);
+  }
+
+  async addEntry(name: string, data: string | Buffer): Promise<void> {
+    this.startEntry(name);
+    await this.write(data);
+    await this.endEntry();
+  }
+
+  // Write the central directory; the archive is complete afterwards
+  finish(): void {
+    if (this.current) {
+      throw new Error('Zip entry has not been ended');
+    }
+
+    const directoryOffset = this.offset;
+    for (const record of this.entries) {
+      // Values that do not fit are 0xFFFFFFFF here and follow in the ZIP64 extra field, in this order
+      const zip64Values = [
+        ...(isZip64Size(record) ? [record.size, record.compressedSize] : []),
+        ...(record.offset > MAX_ZIP32 ? [record.offset] : []),
+      ];
+      const extra = Buffer.alloc(zip64Values.length > 0 ? 4 + zip64Values.length * 8 : 0);
+      if (zip64Values.length > 0) {
+        extra.writeUInt16LE(ZIP64_EXTRA_FIELD, 0);
+        extra.writeUInt16LE(zip64Values.length * 8, 2);
+        zip64Values.forEach((value, i) => extra.writeBigUInt64LE(BigInt(value), 4 + i * 8));
+      }
+      const version = zip64Values.length > 0 ? ZIP64_VERSION : ZIP_VERSION;
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(version, 4);
+      header.writeUInt16LE(version, 6);
+      header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8);
+      header.writeUInt16LE(METHOD_DEFLATE, 10);
+      header.writeUInt16LE(record.dosTime, 12);
+      header.writeUInt16LE(record.dosDate, 14);
+      header.writeUInt32LE(record.crc, 16);
+      header.writeUInt32LE(isZip64Size(record) ? MAX_ZIP32 : record.compressedSize, 20);
+      header.writeUInt32LE(isZip64Size(record) ? MAX_ZIP32 : record.size, 24);
+      header.writeUInt16LE(record.name.length, 28);
+      header.writeUInt16LE(extra.length, 30);
+      // Comment, disk number and attributes (32-41) are all zero
+      header.writeUInt32LE(Math.min(record.offset, MAX_ZIP32), 42);
+      this.emit(Buffer.concat([header, record.name, extra]));
+    }
+
+    const directorySize = this.offset - directoryOffset;
+    const zip64 = this.entries.length > MAX_ZIP32_ENTRIES || directorySize > MAX_ZIP32 || directoryOffset > MAX_ZIP32;
+    if (zip64) {
+      const zip64EndOffset = this.offset;
+      const zip64End = Buffer.alloc(56);
+      zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY, 0);
+      // Size of the record after this field
+      zip64End.writeBigUInt64LE(BigInt(44), 4);
+      zip64End.writeUInt16LE(ZIP64_VERSION, 12);
+      zip64End.writeUInt16LE(ZIP64_VERSION, 14);
+      // Both disk numbers (16-23) are zero
+      zip64End.writeBigUInt64LE(BigInt(this.entries.length), 24);
+      zip64End.writeBigUInt64LE(BigInt(this.entries.length), 32);
+      zip64End.writeBigUInt64LE(BigInt(directorySize), 40);
+      zip64End.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR, 0);
+      locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+      locator.writeUInt32LE(1, 16);
+      this.emit(Buffer.concat([zip64End, locator]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(Math.min(this.entries.length, MAX_ZIP32_ENTRIES), 8);
+    end.writeUInt16LE(Math.min(this.entries.length, MAX_ZIP32_ENTRIES), 10);
+    end.writeUInt32LE(zip64 ? MAX_ZIP32 : directorySize, 12);
+    end.writeUInt32LE(zip64 ? MAX_ZIP32 : directoryOffset, 16);
+    this.emit(end);
+  }
+
+  private getCurrentEntry() {
+    if (!this.current) {
+      throw new Error('No zip entry has been started');
+    }
+    return this.current;
+  }
+
+  private emit(chunk: Buffer): void {
+    this.offset += chunk.length;
+    this.output(chunk);
+  }
+}
+
+function isZip64Size(record: ZipEntryRecord): boolean {
+  return record.size > MAX_ZIP32 || record.compressedSize > MAX_ZIP32;
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}